@@ -0,0 +1,479 @@
+import { isIP } from "net";
+import { v4 as uuidv4 } from "uuid";
+import postgres from "postgres";
+import { jsonb, sql } from "./database";
+import { ClientSession } from "./types";
+import { sessions } from "./sessions";
+import { recordTransaction, usageReport } from "./credits";
+import { priceHistory } from "./modelCatalog";
+
+const AUDIT_LIMIT = 20;
+
+export interface Ban {
+  id: string;
+  kind: "account" | "ip";
+  target: string;
+  reason: string | null;
+  expires_at: Date | null;
+}
+
+// Admin rights are checked against the database on every command, so
+// revoking them takes effect in sessions that are already open
+async function isAdmin(session: ClientSession): Promise<boolean> {
+  if (!session.username || session.username === "guest") {
+    return false;
+  }
+  const [account] = await sql`
+    SELECT is_admin FROM accounts WHERE id = ${session.userId}
+  `;
+  return !!account?.is_admin;
+}
+
+// Write an action to the audit log, in the transaction making the change
+// so that it can't happen unrecorded
+async function recordAdminAction(
+  tx: postgres.TransactionSql,
+  session: ClientSession,
+  action: string,
+  target: string | null,
+  details: Record<string, unknown> = {}
+) {
+  await tx`
+    INSERT INTO admin_audit_log (admin_id, action, target, details)
+    VALUES (${session.userId}, ${action}, ${target}, ${jsonb(details)})
+  `;
+  console.log(`Admin ${session.username}: ${action} ${target ?? ""}`, details);
+}
+
+export const ADMIN_USAGE =
+  "  /admin sessions                          - List open sessions\n" +
+  "  /admin kick <session> [reason]           - Disconnect a session\n" +
+  "  /admin ban <username|ip> [min] [reason]  - Ban an account or IP, 0 minutes for ever\n" +
+  "  /admin unban <username|ip>               - Lift a ban\n" +
+  "  /admin grant <username> <amount> [note]  - Add credits to an account\n" +
+  "  /admin revoke <username> <amount> [note] - Take credits from an account\n" +
+  "  /admin usage <username>                  - Show an account's recent usage\n" +
+  "  /admin audit                             - Show recent admin actions\n" +
+  "  /admin prices <model_id>                 - Show a model's price changes";
+
+export async function handleAdminCommand(
+  session: ClientSession,
+  args: string[]
+) {
+  try {
+    if (!(await isAdmin(session))) {
+      session.writeCommandOutput("/admin is only available to admins.");
+      return;
+    }
+  } catch (error) {
+    console.error("Failed to check admin rights:", error);
+    session.writeCommandOutput("Failed to check admin rights.");
+    return;
+  }
+
+  const [subcommand, ...subargs] = args;
+
+  try {
+    switch (subcommand?.toLowerCase()) {
+      case "sessions":
+        listSessions(session);
+        return;
+
+      case "kick":
+        if (subargs.length < 1) {
+          session.writeCommandOutput("Usage: /admin kick <session> [reason]");
+          return;
+        }
+        await kickSession(session, subargs[0], subargs.slice(1).join(" "));
+        return;
+
+      case "ban": {
+        const minutes = Number(subargs[1]);
+        if (subargs.length < 1 || (subargs[1] && !(minutes >= 0))) {
+          session.writeCommandOutput(
+            "Usage: /admin ban <username|ip> [minutes, 0 for ever] [reason]"
+          );
+          return;
+        }
+        await ban(
+          session,
+          subargs[0],
+          minutes || null,
+          subargs.slice(2).join(" ")
+        );
+        return;
+      }
+
+      case "unban":
+        if (subargs.length !== 1) {
+          session.writeCommandOutput("Usage: /admin unban <username|ip>");
+          return;
+        }
+        await unban(session, subargs[0]);
+        return;
+
+      case "grant":
+      case "revoke": {
+        const amount = Number(subargs[1]);
+        if (subargs.length < 2 || !(amount > 0)) {
+          session.writeCommandOutput(
+            `Usage: /admin ${subcommand} <username> <amount> [note]`
+          );
+          return;
+        }
+        await adjustCredits(
+          session,
+          subcommand.toLowerCase() as "grant" | "revoke",
+          subargs[0],
+          amount,
+          subargs.slice(2).join(" ")
+        );
+        return;
+      }
+
+      case "usage":
+        if (subargs.length !== 1) {
+          session.writeCommandOutput("Usage: /admin usage <username>");
+          return;
+        }
+        await showAccountUsage(session, subargs[0]);
+        return;
+
+      case "audit":
+        await showAuditLog(session);
+        return;
+
+      case "prices":
+        if (subargs.length !== 1) {
+          session.writeCommandOutput("Usage: /admin prices <model_id>");
+          return;
+        }
+        await showPriceHistory(session, subargs[0]);
+        return;
+
+      default:
+        session.writeCommandOutput("Usage:\n" + ADMIN_USAGE);
+    }
+  } catch (error) {
+    console.error("Failed to run admin command:", error);
+    session.writeCommandOutput(
+      `Admin command failed. ${(error as Error).message}`
+    );
+  }
+}
+
+function listSessions(session: ClientSession) {
+  const row = (columns: string[]) =>
+    [
+      columns[0].padEnd(12),
+      columns[1].padEnd(16),
+      columns[2].padEnd(16),
+      columns[3].padEnd(34),
+      columns[4].padStart(8),
+      columns[5],
+    ].join("  ") + "\n";
+
+  let sessionList = "Open sessions:\n";
+  sessionList += row([
+    "Session",
+    "User",
+    "IP",
+    "Model",
+    "Spent",
+    "Last prompt",
+  ]);
+  for (const open of sessions.values()) {
+    const lastPrompt = open.lastRequest
+      ? `${Math.floor((Date.now() - open.lastRequest) / 60000)}m ago`
+      : "-";
+    sessionList += row([
+      open.id,
+      open.username ?? "guest",
+      open.clientIP,
+      open.model,
+      `$${open.spent.toFixed(4)}`,
+      lastPrompt,
+    ]);
+  }
+  sessionList += `\n${sessions.size} open.`;
+  session.writeCommandOutput(sessionList);
+}
+
+// Sessions are named session_<n>, the number alone is enough
+function findSession(id: string): ClientSession | undefined {
+  return sessions.get(id) ?? sessions.get(`session_${id}`);
+}
+
+async function kickSession(session: ClientSession, id: string, reason: string) {
+  const target = findSession(id);
+  if (!target) {
+    session.writeCommandOutput(`No open session ${id}. See /admin sessions.`);
+    return;
+  }
+  if (target === session) {
+    session.writeCommandOutput("That is your own session, use exit instead.");
+    return;
+  }
+
+  await sql.begin((tx) =>
+    recordAdminAction(tx, session, "kick", target.id, {
+      username: target.username,
+      ip: target.clientIP,
+      reason: reason || null,
+    })
+  );
+  target.terminateSession(
+    reason
+      ? `You have been disconnected by an admin: ${reason}`
+      : "You have been disconnected by an admin."
+  );
+  session.writeCommandOutput(`Disconnected ${target.id}.`);
+}
+
+async function findAccountId(username: string): Promise<string | null> {
+  const [account] = await sql`
+    SELECT id FROM accounts WHERE LOWER(username) = LOWER(${username})
+  `;
+  return account?.id ?? null;
+}
+
+// Work out whether a ban target is an IP or a username
+async function resolveBanTarget(
+  session: ClientSession,
+  target: string
+): Promise<{ kind: "account" | "ip"; target: string } | null> {
+  if (isIP(target)) {
+    return { kind: "ip", target };
+  }
+  const accountId = await findAccountId(target);
+  if (!accountId) {
+    session.writeCommandOutput(`No account or IP address ${target}.`);
+    return null;
+  }
+  return { kind: "account", target: accountId };
+}
+
+async function ban(
+  session: ClientSession,
+  name: string,
+  minutes: number | null,
+  reason: string
+) {
+  const resolved = await resolveBanTarget(session, name);
+  if (!resolved) {
+    return;
+  }
+  if (resolved.kind === "account" && resolved.target === session.userId) {
+    session.writeCommandOutput("You can't ban yourself.");
+    return;
+  }
+
+  const expiresAt = minutes ? new Date(Date.now() + minutes * 60000) : null;
+  await sql.begin(async (tx) => {
+    await tx`
+      INSERT INTO bans (id, kind, target, reason, created_by, expires_at)
+      VALUES (${uuidv4()}, ${resolved.kind}, ${resolved.target},
+        ${reason || null}, ${session.userId}, ${expiresAt})
+    `;
+    await recordAdminAction(tx, session, "ban", name, {
+      kind: resolved.kind,
+      minutes,
+      reason: reason || null,
+    });
+  });
+
+  // Whoever is connected as the target goes now
+  let kicked = 0;
+  for (const open of [...sessions.values()]) {
+    const matches =
+      resolved.kind === "ip"
+        ? open.clientIP === resolved.target
+        : open.userId === resolved.target &&
+          !!open.username &&
+          open.username !== "guest";
+    if (matches && open !== session) {
+      open.terminateSession(
+        describeBan({
+          id: "",
+          kind: resolved.kind,
+          target: resolved.target,
+          reason: reason || null,
+          expires_at: expiresAt,
+        })
+      );
+      kicked++;
+    }
+  }
+
+  session.writeCommandOutput(
+    `Banned ${name} ${
+      expiresAt ? `until ${formatTime(expiresAt)} UTC` : "until lifted"
+    }, ${kicked} session${kicked === 1 ? "" : "s"} disconnected.`
+  );
+}
+
+async function unban(session: ClientSession, name: string) {
+  const resolved = await resolveBanTarget(session, name);
+  if (!resolved) {
+    return;
+  }
+
+  const lifted = await sql.begin(async (tx) => {
+    const updated = await tx`
+      UPDATE bans SET lifted_at = NOW()
+      WHERE kind = ${resolved.kind} AND target = ${resolved.target}
+        AND lifted_at IS NULL
+    `;
+    if (updated.count > 0) {
+      await recordAdminAction(tx, session, "unban", name, {
+        kind: resolved.kind,
+      });
+    }
+    return updated.count > 0;
+  });
+  if (!lifted) {
+    session.writeCommandOutput(`${name} is not banned.`);
+    return;
+  }
+  session.writeCommandOutput(`Lifted the ban on ${name}.`);
+}
+
+async function adjustCredits(
+  session: ClientSession,
+  action: "grant" | "revoke",
+  username: string,
+  amount: number,
+  note: string
+) {
+  const accountId = await findAccountId(username);
+  if (!accountId) {
+    session.writeCommandOutput(`No account named ${username}.`);
+    return;
+  }
+
+  const details = {
+    kind: action,
+    sessionId: session.id,
+    description:
+      note ||
+      `${action === "grant" ? "Granted" : "Revoked"} by ${session.username}`,
+  } as const;
+  const { applied, balance } = await sql.begin(async (tx) => {
+    // A revoke takes at most what the account has, never leaving it
+    // negative. Locked so a request settling meanwhile can't change it.
+    let applied = amount;
+    if (action === "revoke") {
+      const [account] = await tx`
+        SELECT credits FROM accounts WHERE id = ${accountId} FOR UPDATE
+      `;
+      applied = Math.min(amount, Math.max(0, Number(account.credits)));
+    }
+    const balance = await recordTransaction(
+      tx,
+      accountId,
+      action === "grant" ? applied : -applied,
+      details
+    );
+    await recordAdminAction(tx, session, action, username, {
+      amount: applied,
+      requested: amount,
+      balance,
+      note: note || null,
+    });
+    return { applied, balance };
+  });
+
+  // Open sessions of the account show the new balance right away
+  for (const open of sessions.values()) {
+    if (open.userId === accountId) {
+      open.credits = balance;
+    }
+  }
+  session.writeCommandOutput(
+    `${action === "grant" ? "Granted" : "Revoked"} $${applied.toFixed(4)}` +
+      (applied < amount ? ` of the $${amount.toFixed(4)} asked for` : "") +
+      `, ${username} now has $${balance.toFixed(4)}.`
+  );
+}
+
+async function showAccountUsage(session: ClientSession, username: string) {
+  const accountId = await findAccountId(username);
+  if (!accountId) {
+    session.writeCommandOutput(`No account named ${username}.`);
+    return;
+  }
+  await sql.begin((tx) => recordAdminAction(tx, session, "usage", username));
+  const report = await usageReport(accountId);
+  session.writeCommandOutput(report ?? `${username} has no transactions.`);
+}
+
+async function showAuditLog(session: ClientSession) {
+  const entries = await sql`
+    SELECT l.action, l.target, l.details, l.created_at, a.username
+    FROM admin_audit_log l
+    LEFT JOIN accounts a ON a.id = l.admin_id
+    ORDER BY l.created_at DESC
+    LIMIT ${AUDIT_LIMIT}
+  `;
+  if (entries.length === 0) {
+    session.writeCommandOutput("No admin actions yet.");
+    return;
+  }
+
+  let auditList = "Recent admin actions:\n";
+  for (const entry of entries) {
+    auditList += `${formatTime(entry.created_at)}  ${
+      entry.username ?? "(deleted)"
+    }  ${entry.action} ${entry.target ?? ""}  ${JSON.stringify(
+      entry.details
+    )}\n`;
+  }
+  session.writeCommandOutput(auditList);
+}
+
+async function showPriceHistory(session: ClientSession, modelId: string) {
+  const prices = await priceHistory(modelId);
+  if (prices.length === 0) {
+    session.writeCommandOutput(`No prices recorded for ${modelId}.`);
+    return;
+  }
+
+  const perMillion = (price: string) =>
+    `$${(Number(price) * 1_000_000).toFixed(4)}`;
+  let history = `Provider prices for ${modelId}, per million tokens before margin:\n`;
+  for (const price of prices) {
+    history += `${formatTime(price.effective_from)}  prompt ${perMillion(
+      price.prompt_price
+    )}  completion ${perMillion(price.completion_price)}\n`;
+  }
+  session.writeCommandOutput(history);
+}
+
+function formatTime(date: Date): string {
+  return new Date(date).toISOString().slice(0, 16).replace("T", " ");
+}
+
+// The ban in force for an IP or account, if any
+export async function findActiveBan(
+  clientIP: string,
+  accountId: string | null
+): Promise<Ban | null> {
+  const [active] = await sql<Ban[]>`
+    SELECT id, kind, target, reason, expires_at FROM bans
+    WHERE lifted_at IS NULL
+      AND (expires_at IS NULL OR expires_at > NOW())
+      AND ((kind = 'ip' AND target = ${clientIP})
+        OR (kind = 'account' AND target = ${accountId ?? ""}))
+    ORDER BY expires_at DESC NULLS FIRST
+    LIMIT 1
+  `;
+  return active ?? null;
+}
+
+export function describeBan(ban: Ban): string {
+  const who = ban.kind === "ip" ? "Your address" : "Your account";
+  const until = ban.expires_at
+    ? ` until ${formatTime(ban.expires_at)} UTC`
+    : "";
+  return `${who} is banned${until}${ban.reason ? `: ${ban.reason}` : "."}`;
+}
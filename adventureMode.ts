@@ -1,10 +1,34 @@
 import { readFileSync } from "fs";
 import { v4 as uuidv4 } from "uuid";
-import { openai } from "./index";
 import { sql } from "./database";
 import { ClientSession, Message } from "./types";
-
-const ADVENTURE_MODEL = "anthropic/claude-3.5-sonnet";
+import {
+  ChatMessage,
+  findModel,
+  getProviderForModel,
+  ToolDefinition,
+  Usage,
+} from "./providers";
+import { promptConfirm, promptSelect } from "./prompts";
+import { createOutputRenderer } from "./markdown";
+import {
+  calculateCost,
+  CONFIRM_COST_THRESHOLD,
+  estimateRequestCost,
+  hasFixedPrice,
+  recordPromptUsage,
+} from "./pricing";
+import {
+  CreditHold,
+  holdCredits,
+  Payer,
+  refreshBalance,
+  releaseHold,
+  settleHold,
+} from "./credits";
+
+const ADVENTURE_MODEL =
+  process.env.ADVENTURE_MODEL ?? "anthropic/claude-3.5-sonnet";
 const ADVENTURE_SYSTEM_PROMPT = readFileSync("game_prompt.txt", "utf-8");
 
 const COLORS = {
@@ -14,6 +38,36 @@ const COLORS = {
   RESET: "\x1b[0m",
 };
 
+const ADVENTURE_TOOLS: ToolDefinition[] = [
+  {
+    name: "save_game",
+    description: "Save the current game progress",
+    parameters: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: "win_game",
+    description: "Call when player has won the game",
+    parameters: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: "lose_game",
+    description: "Call when player has lost the game",
+    parameters: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+  },
+];
+
 // Add these ASCII arts at the top
 const WIN_ART = `
     ⭐️ VICTORY ⭐️
@@ -37,6 +91,21 @@ const LOSE_ART = `
     ░▀▀▀░░▀▀▀░▀░░▀░▀▀▀░
 `;
 
+// For terminals too narrow for the art above
+const WIN_ART_NARROW = `
+ ⭐️ VICTORY ⭐️
+ Reality Restored
+`;
+
+const LOSE_ART_NARROW = `
+ SYSTEM FAILURE
+ Process ended
+`;
+
+const ART_WIDTH = 26;
+
+const GAME_END_CHOICES = ["Start a new adventure", "Return to main menu"];
+
 export async function handleAdventure(session: ClientSession, input: string) {
   if (!session.userId) {
     session.writeCommandOutput(
@@ -55,116 +124,97 @@ export async function handleAdventure(session: ClientSession, input: string) {
   }
 }
 
+// Adventure turns are charged like any other request, for the adventure
+// model rather than the session's
 export async function handleAdventureMessage(
   session: ClientSession,
   message: string
 ) {
+  const payer: Payer = {
+    id: session.id,
+    model: ADVENTURE_MODEL,
+    userId: session.userId,
+    username: session.username,
+    credits: session.credits,
+    clientIP: session.clientIP,
+    clientPublicKey: session.clientPublicKey,
+    spent: session.spent,
+  };
+  let hold: CreditHold | null = null;
+
   try {
+    await refreshBalance(payer);
+    const modelInfo = findModel(ADVENTURE_MODEL);
+    if (!modelInfo || !hasFixedPrice(modelInfo)) {
+      session.writeCommandOutput(
+        `Pricing for ${ADVENTURE_MODEL} is unknown, the adventure is unavailable.`
+      );
+      return;
+    }
+
+    const messages: ChatMessage[] = [
+      { role: "system", content: ADVENTURE_SYSTEM_PROMPT },
+      ...session.adventureConversation.map((msg) => ({
+        role: msg.role,
+        content: msg.content,
+      })),
+      { role: "user", content: message },
+    ];
+    const estimate = estimateRequestCost(modelInfo, messages, payer.credits);
+    if (payer.credits <= 0 || !estimate) {
+      session.writeCommandOutput(
+        `Your balance of $${payer.credits.toFixed(
+          4
+        )} is not enough for the next turn on ${ADVENTURE_MODEL}.`
+      );
+      return;
+    }
+    if (estimate.worstCaseCost >= CONFIRM_COST_THRESHOLD) {
+      const confirmed = await promptConfirm(
+        session,
+        `This turn may cost up to $${estimate.worstCaseCost.toFixed(
+          4
+        )}. Continue?`
+      );
+      if (!confirmed) {
+        session.writeCommandOutput("Turn cancelled.");
+        return;
+      }
+    }
+
+    hold = await holdCredits(payer, estimate.worstCaseCost);
+    if (!hold) {
+      session.writeCommandOutput(
+        "Your balance changed and no longer covers this turn. Check /balance."
+      );
+      return;
+    }
+
     session.adventureConversation.push({
       role: "user",
       content: message,
     });
 
-    const stream = await openai.beta.chat.completions.stream({
+    const stream = getProviderForModel(ADVENTURE_MODEL).streamChat({
       model: ADVENTURE_MODEL,
-      messages: [
-        { role: "system", content: ADVENTURE_SYSTEM_PROMPT },
-        ...session.adventureConversation.map((msg) => ({
-          role: msg.role,
-          content: msg.content,
-        })),
-      ],
-      stream: true,
-      tools: [
-        {
-          type: "function",
-          function: {
-            name: "save_game",
-            description: "Save the current game progress",
-            parameters: {
-              type: "object",
-              properties: {},
-              required: [],
-            },
-          },
-        },
-        {
-          type: "function",
-          function: {
-            name: "win_game",
-            description: "Call when player has won the game",
-            parameters: {
-              type: "object",
-              properties: {},
-              required: [],
-            },
-          },
-        },
-        {
-          type: "function",
-          function: {
-            name: "lose_game",
-            description: "Call when player has lost the game",
-            parameters: {
-              type: "object",
-              properties: {},
-              required: [],
-            },
-          },
-        },
-      ],
-      tool_choice: "auto",
+      messages,
+      tools: ADVENTURE_TOOLS,
+      maxTokens: estimate.maxTokens,
     });
 
     let fullResponse = "";
+    let usage: Usage | null = null;
     let shouldSaveGame = false;
     let gameWon = false;
     let gameLost = false;
-    let isFirstChunk = true;
-    let buffer = "";
-    let inCodeBlock = false;
+    const output = createOutputRenderer(session);
 
     // Clear the current line
     session.writeToStream("\r\n", false);
 
     for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content || "";
-
-      if (content) {
-        buffer += content;
-
-        // Check for code block markers
-        if (buffer.includes("```")) {
-          inCodeBlock = !inCodeBlock;
-        }
-
-        // Only process complete lines when we have a newline and we're not in a code block
-        if (buffer.includes("\n") && !inCodeBlock) {
-          const lines = buffer.split("\n");
-          // Keep the last line in the buffer if it doesn't end with a newline
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (isFirstChunk) {
-              isFirstChunk = false;
-            } else {
-              session.writeToStream("\r\n", false);
-            }
-            session.writeToStream("\r" + line, false);
-          }
-        }
-      }
-
-      fullResponse += content;
-    }
-
-    const chatCompletion = await stream.finalChatCompletion();
-
-    const toolCalls = chatCompletion.choices[0]?.message?.tool_calls;
-
-    if (toolCalls && toolCalls.length > 0) {
-      for (const call of toolCalls) {
-        switch (call.function?.name) {
+      if (chunk.type === "tool_call") {
+        switch (chunk.name) {
           case "save_game":
             shouldSaveGame = true;
             break;
@@ -175,16 +225,30 @@ export async function handleAdventureMessage(
             gameLost = true;
             break;
         }
+        continue;
       }
-    }
 
-    // Flush any remaining buffer
-    if (buffer) {
-      if (!isFirstChunk) {
-        session.writeToStream("\r\n", false);
+      if (chunk.type === "text") {
+        output.push(chunk.content);
+        fullResponse += chunk.content;
+      } else if (chunk.type === "usage") {
+        usage = chunk.usage;
       }
-      session.writeToStream("\r" + buffer, false);
     }
+    output.end();
+
+    // Settled before anything else can fail and release it instead
+    const settled = hold;
+    hold = null;
+    if (usage) {
+      await settleHold(payer, settled, calculateCost(modelInfo, usage), usage);
+      recordPromptUsage(ADVENTURE_MODEL, messages, usage);
+    } else {
+      await releaseHold(payer, settled);
+      console.error(`[${session.id}] Usage data not received from the API`);
+    }
+    session.credits = payer.credits;
+    session.spent = payer.spent;
 
     session.adventureConversation.push({
       role: "assistant",
@@ -198,7 +262,14 @@ export async function handleAdventureMessage(
 
     if (gameWon || gameLost) {
       const color = gameWon ? COLORS.GREEN : COLORS.RED;
-      const art = gameWon ? WIN_ART : LOSE_ART;
+      const narrow = session.terminal.cols < ART_WIDTH;
+      const art = gameWon
+        ? narrow
+          ? WIN_ART_NARROW
+          : WIN_ART
+        : narrow
+        ? LOSE_ART_NARROW
+        : LOSE_ART;
       const message = gameWon
         ? "🎉 Congratulations! You've won the game! 🎉"
         : "Game Over! Better luck next time!";
@@ -213,15 +284,16 @@ export async function handleAdventureMessage(
       // Add a small delay before showing options
       await new Promise((resolve) => setTimeout(resolve, 500));
 
-      session.writeToStream("\r\n\r\nWhat would you like to do?", false);
-      session.writeToStream("\r\n1. Start a new adventure", false);
-      session.writeToStream("\r\n2. Return to main menu", false);
-      session.writeToStream(`\r\n${COLORS.CYAN}>${COLORS.RESET} `, false);
-
-      // Set a flag to handle the next input differently
-      session.gameEndChoice = true;
       session.isInAdventure = false;
       session.adventureConversation = [];
+
+      session.writeToStream("\r\n", false);
+      const choice = await promptSelect(
+        session,
+        "What would you like to do?",
+        GAME_END_CHOICES
+      );
+      await handleGameEndChoice(session, choice);
     } else {
       session.writeToStream(`\r\n${COLORS.CYAN}>${COLORS.RESET} `, false);
     }
@@ -231,6 +303,12 @@ export async function handleAdventureMessage(
     );
   } catch (error) {
     console.error("Error in adventure mode:", error);
+    if (hold) {
+      await releaseHold(payer, hold).catch((releaseError) =>
+        console.error(`[${session.id}] Error releasing credits:`, releaseError)
+      );
+      session.credits = payer.credits;
+    }
     session.writeCommandOutput(
       "An error occurred during the adventure. Please try again."
     );
@@ -264,34 +342,21 @@ export async function saveGameProgress(session: ClientSession) {
 
 export async function handleGameEndChoice(
   session: ClientSession,
-  input: string
+  choice: number | null
 ) {
   try {
-    switch (input.trim()) {
-      case "1":
-        session.isInAdventure = true;
-        session.gameEndChoice = false;
-        session.adventureConversation = [];
-        session.writeToStream("\x1B[2J\x1B[H\x1B[3J", false); // Only clear screen when starting new game
-        await handleAdventureMessage(session, "start");
-        break;
-      case "2":
-        session.gameEndChoice = false;
-        session.writeCommandOutput(
-          "Welcome back! Type /help to see available commands."
-        );
-        break;
-      default:
-        session.writeToStream("\r\nPlease choose 1 or 2:", false);
-        session.writeToStream("\r\n1. Start a new adventure", false);
-        session.writeToStream("\r\n2. Return to main menu", false);
-        session.writeToStream(`\r\n${COLORS.CYAN}>${COLORS.RESET} `, false);
+    if (choice === 0) {
+      session.isInAdventure = true;
+      session.adventureConversation = [];
+      session.writeToStream("\x1B[2J\x1B[H\x1B[3J", false); // Only clear screen when starting new game
+      await handleAdventureMessage(session, "start");
+    } else {
+      session.writeCommandOutput(
+        "Welcome back! Type /help to see available commands."
+      );
     }
   } catch (error) {
     console.error("Error handling game end choice:", error);
-    session.writeToStream("\r\nAn error occurred. Please try again.", false);
-    session.writeToStream("\r\n1. Start a new adventure", false);
-    session.writeToStream("\r\n2. Return to main menu", false);
-    session.writeToStream(`\r\n${COLORS.CYAN}>${COLORS.RESET} `, false);
+    session.writeCommandOutput("An error occurred. Please try again.");
   }
 }
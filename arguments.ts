@@ -0,0 +1,64 @@
+// Read the word starting at or after `start` the way a shell would, where
+// single or double quotes group words. Quotes only count at the start and
+// end of a word, so apostrophes inside words are kept as typed. Returns
+// the word with the index just past it, or null at the end of the line.
+function readArgument(
+  line: string,
+  start: number
+): { word: string; end: number } | null {
+  let i = start;
+  while (i < line.length && /\s/.test(line[i])) i++;
+  if (i >= line.length) return null;
+
+  const quote = line[i];
+  if (quote === '"' || quote === "'") {
+    let word = "";
+    let j = i + 1;
+    for (; j < line.length; j++) {
+      if (line[j] === "\\" && quote === '"' && j + 1 < line.length) {
+        word += line[++j];
+      } else if (
+        line[j] === quote &&
+        (j + 1 === line.length || /\s/.test(line[j + 1]))
+      ) {
+        break;
+      } else {
+        word += line[j];
+      }
+    }
+    if (j < line.length) {
+      return { word, end: j + 1 };
+    }
+    // No closing quote, so the quote is part of the word
+  }
+
+  let end = i;
+  while (end < line.length && !/\s/.test(line[end])) end++;
+  return { word: line.slice(i, end), end };
+}
+
+// Split a command line into words the way a shell would
+export function splitArguments(line: string): string[] {
+  const words: string[] = [];
+  let next = readArgument(line, 0);
+  while (next) {
+    words.push(next.word);
+    next = readArgument(line, next.end);
+  }
+  return words;
+}
+
+// The free text after the first `count` words, as typed, so quotes and
+// line breaks in it are kept. Text that is a single quoted word is taken
+// without its quotes, as in /char new Bob "You are Bob".
+export function argumentText(text: string, count: number): string {
+  let end = 0;
+  for (let n = 0; n < count; n++) {
+    const next = readArgument(text, end);
+    if (!next) return "";
+    end = next.end;
+  }
+  const rest = text.slice(end).trim();
+  const words = splitArguments(rest);
+  return words.length === 1 ? words[0] : rest;
+}
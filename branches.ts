@@ -0,0 +1,250 @@
+import {
+  ClientSession,
+  ConversationNode,
+  ConversationTree,
+  Message,
+} from "./types";
+import { autosaveConversation } from "./conversations";
+import { resetContext } from "./context";
+import { allowPrompt } from "./rateLimits";
+
+const PREVIEW_LENGTH = 60;
+
+export function emptyTree(): ConversationTree {
+  return { children: [], active: 0 };
+}
+
+function sameMessage(node: ConversationNode, message: Message): boolean {
+  return node.role === message.role && node.content === message.content;
+}
+
+function toMessage({ children, active, ...message }: ConversationNode) {
+  return message;
+}
+
+// The branch points along the active branch: the nth one holds the nth
+// message and its alternatives
+function branchPoints(tree: ConversationTree): ConversationTree[] {
+  const points: ConversationTree[] = [];
+  let point = tree;
+  while (point.children.length > 0) {
+    points.push(point);
+    point = point.children[point.active];
+  }
+  return points;
+}
+
+// Bring the tree up to date with session.conversation, which grows with
+// every turn and is cut back by /retry and /edit. Where it differs from
+// the active branch a new branch starts, and becomes the active one.
+export function recordBranches(session: ClientSession) {
+  let point = session.conversationTree;
+  for (const message of session.conversation) {
+    const current = point.children[point.active];
+    if (!current || !sameMessage(current, message)) {
+      let index = point.children.findIndex((child) =>
+        sameMessage(child, message)
+      );
+      if (index < 0) {
+        point.children.push({ ...message, children: [], active: 0 });
+        index = point.children.length - 1;
+      }
+      point.active = index;
+    }
+    point = point.children[point.active];
+  }
+}
+
+// Make the tree's active branch the conversation again
+function useActiveBranch(session: ClientSession, changedAt: number) {
+  session.conversation = branchPoints(session.conversationTree).map((point) =>
+    toMessage(point.children[point.active])
+  );
+  // The summary covers turns that are no longer on the branch
+  if (changedAt < session.contextStart) {
+    resetContext(session);
+  }
+}
+
+// Cut the conversation back to its first messages, keeping the rest in
+// the tree, before sending something else in their place. Returns what
+// puts them back, with the context they had, for when that fails.
+export function truncateConversation(
+  session: ClientSession,
+  length: number
+): () => void {
+  recordBranches(session);
+  const { contextStart, contextSummary } = session;
+  session.conversation = session.conversation.slice(0, length);
+  if (length < session.contextStart) {
+    resetContext(session);
+  }
+
+  return () => {
+    useActiveBranch(session, length);
+    // The failed request may have compacted the shorter conversation.
+    // Both cover the start of the branch, so the one covering more is
+    // kept, and nothing is summarized and charged for twice.
+    if (contextStart > session.contextStart) {
+      session.contextStart = contextStart;
+      session.contextSummary = contextSummary;
+    }
+  };
+}
+
+// " (alternative 2 of 3)" for a message of the active branch that has
+// others, or ""
+export function describeAlternatives(
+  session: ClientSession,
+  index: number
+): string {
+  const point = branchPoints(session.conversationTree)[index];
+  return point && point.children.length > 1
+    ? ` (alternative ${point.active + 1} of ${point.children.length})`
+    : "";
+}
+
+function describeSettings(message: Message): string {
+  return message.model
+    ? ` (${message.model}, temperature ${message.temperature})`
+    : "";
+}
+
+export async function switchAlternative(
+  session: ClientSession,
+  direction: "next" | "prev",
+  number?: number
+) {
+  recordBranches(session);
+  const points = branchPoints(session.conversationTree);
+
+  let index: number;
+  if (number === undefined) {
+    // The latest message that has alternatives
+    index = points.findLastIndex((point) => point.children.length > 1);
+    if (index < 0) {
+      session.writeCommandOutput(
+        "There are no alternatives yet. /retry answers the last message again, and /edit <n> <message> rewrites one of yours."
+      );
+      return;
+    }
+  } else {
+    index = number - 1;
+    if (!points[index]) {
+      session.writeCommandOutput(
+        `There is no message ${number}. /history numbers them.`
+      );
+      return;
+    }
+    if (points[index].children.length === 1) {
+      session.writeCommandOutput(`Message ${number} has no alternatives.`);
+      return;
+    }
+  }
+
+  const point = points[index];
+  const count = point.children.length;
+  point.active =
+    (point.active + (direction === "next" ? 1 : -1) + count) % count;
+  useActiveBranch(session, index);
+  await autosaveConversation(session);
+
+  const message = session.conversation[index];
+  const following = session.conversation.length - index - 1;
+  let output = `Message ${index + 1}, alternative ${
+    point.active + 1
+  } of ${count}${describeSettings(message)}:\n${message.content}`;
+  if (following > 0) {
+    output += `\n\n${following} more message${
+      following === 1 ? " follows" : "s follow"
+    } on this branch. /history shows them.`;
+  }
+  session.writeCommandOutput(output);
+}
+
+// Send a new version of one of the user's messages, which starts a branch
+// there. The original stays an alternative.
+export async function editMessage(
+  session: ClientSession,
+  number: number,
+  text: string
+) {
+  const message = session.conversation[number - 1];
+  if (!message) {
+    session.writeCommandOutput(
+      `There is no message ${number}. /history numbers them.`
+    );
+    return;
+  }
+  if (message.role !== "user") {
+    session.writeCommandOutput(
+      `Message ${number} is an answer. Only your own messages can be edited, /retry answers the last one again.`
+    );
+    return;
+  }
+  if (!allowPrompt(session)) {
+    return;
+  }
+
+  const restore = truncateConversation(session, number - 1);
+  session.writeCommandOutput(
+    `Editing message ${number}. The original is kept, /alt prev ${number} goes back to it.`
+  );
+  if (!(await session.streamResponse(text))) {
+    restore();
+  }
+}
+
+function preview(content: string): string {
+  const line = content.replace(/\s+/g, " ").trim();
+  return line.length > PREVIEW_LENGTH
+    ? line.slice(0, PREVIEW_LENGTH - 3) + "..."
+    : line;
+}
+
+// The tree with a line per message. Runs without alternatives stay in
+// one column, and each alternative's branch is drawn below it.
+function drawTree(
+  point: ConversationTree,
+  number: number,
+  indent: string,
+  onActive: boolean,
+  lines: string[]
+) {
+  const line = (node: ConversationNode, active: boolean, label: string) =>
+    `${active ? "\x1b[1m*" : "\x1b[2m "}${number}. ${
+      node.role === "user" ? "You" : "AI"
+    }${label}: ${preview(node.content)}\x1b[0m`;
+
+  while (point.children.length === 1) {
+    const [node] = point.children;
+    lines.push(indent + line(node, onActive, ""));
+    point = node;
+    number++;
+  }
+
+  point.children.forEach((node, i) => {
+    const last = i === point.children.length - 1;
+    const active = onActive && i === point.active;
+    const label = ` [${i + 1}/${point.children.length}]${
+      node.role === "assistant" ? describeSettings(node) : ""
+    }`;
+    lines.push(`${indent}${last ? "└─" : "├─"}${line(node, active, label)}`);
+    drawTree(node, number + 1, indent + (last ? "  " : "│ "), active, lines);
+  });
+}
+
+export function showTree(session: ClientSession) {
+  recordBranches(session);
+  if (session.conversationTree.children.length === 0) {
+    session.writeCommandOutput("No conversation yet.");
+    return;
+  }
+
+  const lines: string[] = [];
+  drawTree(session.conversationTree, 1, "", true, lines);
+  session.writeCommandOutput(
+    `${lines.join("\n")}\n\n` +
+      "* marks the branch in use. /alt next|prev [n] switches between alternatives, /edit <n> <message> rewrites one of your messages."
+  );
+}
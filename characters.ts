@@ -0,0 +1,874 @@
+import { v4 as uuidv4 } from "uuid";
+import { jsonb, sql } from "./database";
+import { Character, CharacterExample, ClientSession } from "./types";
+import { ChatMessage, findModel } from "./providers";
+import { unknownModelMessage } from "./models";
+import { argumentText } from "./arguments";
+
+const PAGE_SIZE = 10;
+const COMPLETION_LIMIT = 50;
+const SUMMARY_LENGTH = 60;
+
+// Names are referred to as owner/name, so they can't contain a slash
+const NAME_PATTERN = /^[\w.-]{1,50}$/;
+
+type Visibility = "private" | "unlisted" | "public";
+const VISIBILITIES: Visibility[] = ["private", "unlisted", "public"];
+
+type Setting = "model" | "temperature" | "greeting";
+const SETTINGS: Setting[] = ["model", "temperature", "greeting"];
+
+// Separates the user message from the reply in /char example add
+const EXAMPLE_SEPARATOR = " => ";
+
+// The model and temperature a session had before it used a character,
+// put back by /char clear
+const savedSettings = new WeakMap<
+  ClientSession,
+  { model: string; temperature: number }
+>();
+
+// How /char browse can order the gallery
+const SORTS = {
+  popular: sql`c.use_count DESC, c.created_at DESC`,
+  top: sql`r.rating DESC NULLS LAST, r.ratings DESC NULLS LAST, c.use_count DESC`,
+  new: sql`c.created_at DESC`,
+};
+type Sort = keyof typeof SORTS;
+
+interface CharacterDetails extends Character {
+  owner: string;
+  owner_id: string;
+  visibility: Visibility;
+  use_count: number;
+  rating: number | null;
+  ratings: number;
+  forked_from: string | null;
+  created_at: Date;
+}
+
+// Columns and joins shared by every query that shows characters
+const DETAILS = sql`
+  SELECT c.id, c.name, c.system_prompt, c.owner_id, a.username AS owner,
+    c.model, c.temperature, c.greeting, c.examples,
+    c.visibility, c.use_count, c.created_at,
+    r.rating, COALESCE(r.ratings, 0) AS ratings,
+    fa.username || '/' || f.name AS forked_from,
+    COUNT(*) OVER () AS total
+  FROM characters c
+  JOIN accounts a ON a.id = c.owner_id
+  LEFT JOIN (
+    SELECT character_id, AVG(rating)::float AS rating, COUNT(*)::int AS ratings
+    FROM character_ratings
+    GROUP BY character_id
+  ) r ON r.character_id = c.id
+  LEFT JOIN characters f ON f.id = c.forked_from
+  LEFT JOIN accounts fa ON fa.id = f.owner_id
+`;
+
+function isLoggedIn(session: ClientSession): boolean {
+  return !!session.username && session.username !== "guest";
+}
+
+function summary(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > SUMMARY_LENGTH
+    ? line.slice(0, SUMMARY_LENGTH - 3) + "..."
+    : line;
+}
+
+function describeRating(character: CharacterDetails): string {
+  if (!character.ratings) {
+    return "not rated yet";
+  }
+  return `rated ${character.rating!.toFixed(1)}/5 by ${character.ratings} ${
+    character.ratings === 1 ? "person" : "people"
+  }`;
+}
+
+function describeUses(count: number): string {
+  return `used ${count} time${count === 1 ? "" : "s"}`;
+}
+
+// Look up "name" among the session's own characters, or "owner/name"
+// among anyone's that are shared or the session's own
+async function findCharacter(
+  session: ClientSession,
+  reference: string
+): Promise<CharacterDetails | null> {
+  const slash = reference.indexOf("/");
+  if (slash === -1) {
+    const [character] = await sql<CharacterDetails[]>`
+      ${DETAILS}
+      WHERE c.owner_id = ${session.userId}
+        AND LOWER(c.name) = LOWER(${reference})
+    `;
+    return character ?? null;
+  }
+
+  const owner = reference.slice(0, slash);
+  const name = reference.slice(slash + 1);
+  const [character] = await sql<CharacterDetails[]>`
+    ${DETAILS}
+    WHERE LOWER(a.username) = LOWER(${owner})
+      AND LOWER(c.name) = LOWER(${name})
+      AND (c.visibility <> 'private' OR c.owner_id = ${session.userId})
+  `;
+  return character ?? null;
+}
+
+async function ownCharacterExists(
+  session: ClientSession,
+  name: string
+): Promise<boolean> {
+  const [existing] = await sql`
+    SELECT 1 FROM characters
+    WHERE owner_id = ${session.userId} AND LOWER(name) = LOWER(${name})
+  `;
+  return !!existing;
+}
+
+function checkName(session: ClientSession, name: string): boolean {
+  if (!NAME_PATTERN.test(name)) {
+    session.writeCommandOutput(
+      "Character names can use letters, numbers, '.', '-' and '_', up to 50 characters."
+    );
+    return false;
+  }
+  return true;
+}
+
+// Names to complete "name" or "owner/name" with: the session's own
+// characters, shared ones by owner, and owners with public characters
+export async function completeCharacterNames(
+  session: ClientSession,
+  partial: string
+): Promise<string[]> {
+  if (!isLoggedIn(session)) {
+    return [];
+  }
+  const pattern = `${partial.toLowerCase().replace(/[\\%_]/g, "\\$&")}%`;
+
+  if (partial.includes("/")) {
+    const shared = await sql<{ reference: string }[]>`
+      SELECT a.username || '/' || c.name AS reference
+      FROM characters c
+      JOIN accounts a ON a.id = c.owner_id
+      WHERE (c.visibility <> 'private' OR c.owner_id = ${session.userId})
+        AND LOWER(a.username || '/' || c.name) LIKE ${pattern}
+      ORDER BY c.use_count DESC
+      LIMIT ${COMPLETION_LIMIT}
+    `;
+    return shared.map((row) => row.reference);
+  }
+
+  const names = await sql<{ name: string }[]>`
+    SELECT name FROM characters
+    WHERE owner_id = ${session.userId} AND LOWER(name) LIKE ${pattern}
+    UNION
+    SELECT DISTINCT a.username || '/' FROM characters c
+    JOIN accounts a ON a.id = c.owner_id
+    WHERE c.visibility = 'public' AND LOWER(a.username) LIKE ${pattern}
+    LIMIT ${COMPLETION_LIMIT}
+  `;
+  return names.map((row) => row.name);
+}
+
+export const CHARACTER_USAGE =
+  "  /char list                         - List your characters\n" +
+  "  /char new <name> <prompt>          - Create a new character\n" +
+  "  /char edit <name> <prompt>         - Modify a character\n" +
+  "  /char set <name> <setting> <value> - Set its model, temperature or greeting\n" +
+  "  /char example <name> add|remove    - Manage its example exchanges\n" +
+  "  /char delete <name>                - Delete a character\n" +
+  "  /char use <name|owner/name>        - Set active character\n" +
+  "  /char clear                        - Clear active character\n" +
+  "  /char show <name|owner/name>       - Show a character\n" +
+  "  /char share <name> <visibility>    - Make a character public, unlisted or private\n" +
+  "  /char browse [popular|top|new] [page] - Browse public characters\n" +
+  "  /char search <words>               - Search public characters\n" +
+  "  /char fork <owner>/<name> [new]    - Copy a character into your account\n" +
+  "  /char rate <owner>/<name> <1-5>    - Rate someone else's character";
+
+// Prompts, greetings and examples are taken from text, the arguments as
+// typed, to keep their quotes and line breaks
+export async function handleCharacterCommand(
+  session: ClientSession,
+  args: string[],
+  text: string
+) {
+  if (!isLoggedIn(session)) {
+    session.writeCommandOutput(
+      "You need to be logged in to manage characters. Please use /register or /login first."
+    );
+    return;
+  }
+
+  const [subcommand, ...subargs] = args;
+
+  try {
+    switch (subcommand?.toLowerCase()) {
+      case "new":
+        if (subargs.length < 2) {
+          session.writeCommandOutput("Usage: /char new <name> <system_prompt>");
+          return;
+        }
+        await createCharacter(session, subargs[0], argumentText(text, 2));
+        return;
+
+      case "edit":
+        if (subargs.length < 2) {
+          session.writeCommandOutput(
+            "Usage: /char edit <name> <system_prompt>"
+          );
+          return;
+        }
+        await editCharacter(session, subargs[0], argumentText(text, 2));
+        return;
+
+      case "list":
+        await listCharacters(session);
+        return;
+
+      case "use":
+        if (subargs.length !== 1) {
+          session.writeCommandOutput("Usage: /char use <name|owner/name>");
+          return;
+        }
+        await useCharacter(session, subargs[0]);
+        return;
+
+      case "clear":
+        clearCharacter(session);
+        session.writeCommandOutput(
+          "Cleared current character. Using default settings."
+        );
+        return;
+
+      case "set": {
+        const setting = subargs[1]?.toLowerCase() as Setting;
+        if (subargs.length < 3 || !SETTINGS.includes(setting)) {
+          session.writeCommandOutput(
+            "Usage: /char set <name> <model|temperature|greeting> <value|none>"
+          );
+          return;
+        }
+        await changeSetting(
+          session,
+          subargs[0],
+          setting,
+          argumentText(text, 3)
+        );
+        return;
+      }
+
+      case "example": {
+        const [name, action] = subargs;
+        const example = argumentText(text, 3);
+        if (
+          action?.toLowerCase() === "add" &&
+          example.includes(EXAMPLE_SEPARATOR)
+        ) {
+          const separator = example.indexOf(EXAMPLE_SEPARATOR);
+          await addExample(session, name, {
+            user: example.slice(0, separator).trim(),
+            assistant: example
+              .slice(separator + EXAMPLE_SEPARATOR.length)
+              .trim(),
+          });
+        } else if (
+          action?.toLowerCase() === "remove" &&
+          /^\d+$/.test(example)
+        ) {
+          await removeExample(session, name, Number(example));
+        } else {
+          session.writeCommandOutput(
+            "Usage:\n" +
+              `  /char example <name> add <message>${EXAMPLE_SEPARATOR}<reply>  - Add an example exchange\n` +
+              "  /char example <name> remove <n>                - Remove an example, numbered as in /char show"
+          );
+        }
+        return;
+      }
+
+      case "show":
+        if (subargs.length !== 1) {
+          session.writeCommandOutput("Usage: /char show <name|owner/name>");
+          return;
+        }
+        await showCharacter(session, subargs[0]);
+        return;
+
+      case "share": {
+        const visibility = subargs[1]?.toLowerCase() as Visibility;
+        if (subargs.length !== 2 || !VISIBILITIES.includes(visibility)) {
+          session.writeCommandOutput(
+            "Usage: /char share <name> <public|unlisted|private>"
+          );
+          return;
+        }
+        await shareCharacter(session, subargs[0], visibility);
+        return;
+      }
+
+      case "browse": {
+        const sorts = Object.keys(SORTS);
+        const sort = (subargs
+          .map((arg) => arg.toLowerCase())
+          .find((arg) => sorts.includes(arg)) ?? "popular") as Sort;
+        const page = Number(subargs.find((arg) => /^\d+$/.test(arg)) ?? 1);
+        await browseCharacters(session, sort, page);
+        return;
+      }
+
+      case "search":
+        if (subargs.length === 0) {
+          session.writeCommandOutput("Usage: /char search <words>");
+          return;
+        }
+        await searchCharacters(session, subargs.join(" "));
+        return;
+
+      case "fork":
+        if (
+          subargs.length < 1 ||
+          subargs.length > 2 ||
+          !subargs[0].includes("/")
+        ) {
+          session.writeCommandOutput(
+            "Usage: /char fork <owner>/<name> [new_name]"
+          );
+          return;
+        }
+        await forkCharacter(session, subargs[0], subargs[1]);
+        return;
+
+      case "delete":
+        if (subargs.length !== 1) {
+          session.writeCommandOutput("Usage: /char delete <name>");
+          return;
+        }
+        await deleteCharacter(session, subargs[0]);
+        return;
+
+      case "rate": {
+        const rating = Number(subargs[1]);
+        if (
+          subargs.length !== 2 ||
+          !Number.isInteger(rating) ||
+          rating < 1 ||
+          rating > 5
+        ) {
+          session.writeCommandOutput("Usage: /char rate <owner>/<name> <1-5>");
+          return;
+        }
+        await rateCharacter(session, subargs[0], rating);
+        return;
+      }
+
+      default:
+        session.writeCommandOutput("Usage:\n" + CHARACTER_USAGE);
+    }
+  } catch (error) {
+    console.error("Failed to run character command:", error);
+    session.writeCommandOutput(
+      `Character command failed. ${(error as Error).message}`
+    );
+  }
+}
+
+async function createCharacter(
+  session: ClientSession,
+  name: string,
+  systemPrompt: string
+) {
+  if (!checkName(session, name)) {
+    return;
+  }
+  if (await ownCharacterExists(session, name)) {
+    session.writeCommandOutput(
+      `You already have a character named "${name}". Use /char edit to change it.`
+    );
+    return;
+  }
+
+  await sql`
+    INSERT INTO characters (id, owner_id, name, system_prompt)
+    VALUES (${uuidv4()}, ${session.userId}, ${name}, ${systemPrompt})
+  `;
+  session.writeCommandOutput(
+    `Character "${name}" created. It is private until you /char share it.`
+  );
+}
+
+async function editCharacter(
+  session: ClientSession,
+  name: string,
+  systemPrompt: string
+) {
+  const [updated] = await sql`
+    UPDATE characters
+    SET system_prompt = ${systemPrompt}
+    WHERE owner_id = ${session.userId} AND LOWER(name) = LOWER(${name})
+    RETURNING id
+  `;
+  if (updated) {
+    await reloadCurrent(session, updated.id);
+    session.writeCommandOutput(`Character "${name}" updated successfully.`);
+  } else {
+    session.writeCommandOutput(`Character "${name}" not found.`);
+  }
+}
+
+async function listCharacters(session: ClientSession) {
+  const characters = await sql<CharacterDetails[]>`
+    ${DETAILS}
+    WHERE c.owner_id = ${session.userId}
+    ORDER BY c.name
+  `;
+  if (characters.length === 0) {
+    session.writeCommandOutput("You don't have any characters yet.");
+    return;
+  }
+
+  let characterList = "Your characters:\n";
+  characters.forEach((character) => {
+    const current =
+      character.id === session.currentCharacter?.id
+        ? " \x1b[32m(current)\x1b[0m"
+        : "";
+    characterList += `- \x1b[1m${character.name}\x1b[0m${current} (${
+      character.visibility
+    }, ${describeUses(character.use_count)}): ${summary(
+      character.system_prompt
+    )}\n`;
+  });
+  session.writeCommandOutput(characterList);
+}
+
+async function useCharacter(session: ClientSession, reference: string) {
+  const character = await findCharacter(session, reference);
+  if (!character) {
+    session.writeCommandOutput(`Character "${reference}" not found.`);
+    return;
+  }
+
+  // Owners using their own characters would inflate the popular list
+  if (character.owner_id !== session.userId) {
+    await sql`
+      UPDATE characters SET use_count = use_count + 1 WHERE id = ${character.id}
+    `;
+  }
+  if (!session.currentCharacter) {
+    savedSettings.set(session, {
+      model: session.model,
+      temperature: session.temperature,
+    });
+  }
+  session.currentCharacter = toCharacter(character);
+
+  const name =
+    character.owner_id === session.userId
+      ? character.name
+      : `${character.owner}/${character.name}`;
+  let message = `Now using character "${name}".`;
+  if (character.model) {
+    if (findModel(character.model)) {
+      session.model = character.model;
+      message += `\nModel: ${character.model}`;
+    } else {
+      message += `\nIts model ${character.model} isn't available, staying on ${session.model}.`;
+    }
+  }
+  if (character.temperature !== null) {
+    session.temperature = character.temperature;
+    message += `\nTemperature: ${character.temperature}`;
+  }
+  session.writeCommandOutput(message);
+
+  // The greeting opens a new conversation, it would be out of place in
+  // the middle of one
+  if (character.greeting && session.conversation.length === 0) {
+    session.conversation.push({
+      role: "assistant",
+      content: character.greeting,
+    });
+    session.writeCommandOutput(`\x1b[1m${name}:\x1b[0m ${character.greeting}`);
+  }
+}
+
+function toCharacter(character: CharacterDetails): Character {
+  return {
+    id: character.id,
+    name: character.name,
+    system_prompt: character.system_prompt,
+    model: character.model,
+    temperature: character.temperature,
+    greeting: character.greeting,
+    examples: character.examples,
+  };
+}
+
+// Stop using the session's character, and go back to the model and
+// temperature from before it
+function clearCharacter(session: ClientSession) {
+  const saved = savedSettings.get(session);
+  if (session.currentCharacter && saved) {
+    session.model = saved.model;
+    session.temperature = saved.temperature;
+  }
+  savedSettings.delete(session);
+  session.currentCharacter = null;
+}
+
+// Keep the session's copy of its character in step with edits to it
+async function reloadCurrent(session: ClientSession, id: string) {
+  if (session.currentCharacter?.id !== id) {
+    return;
+  }
+  const [character] = await sql<CharacterDetails[]>`
+    ${DETAILS}
+    WHERE c.id = ${id}
+  `;
+  if (character) {
+    session.currentCharacter = toCharacter(character);
+  }
+}
+
+// The system prompt and example exchanges that start every request, from
+// the session's character if it has one
+export function promptMessages(session: ClientSession): ChatMessage[] {
+  const character = session.currentCharacter;
+  if (!character) {
+    return [{ role: "system", content: session.systemPrompt }];
+  }
+  return [
+    { role: "system", content: character.system_prompt },
+    ...character.examples.flatMap((example): ChatMessage[] => [
+      { role: "user", content: example.user },
+      { role: "assistant", content: example.assistant },
+    ]),
+  ];
+}
+
+async function changeSetting(
+  session: ClientSession,
+  name: string,
+  setting: Setting,
+  value: string
+) {
+  const clear = value.toLowerCase() === "none";
+  let update;
+  switch (setting) {
+    case "model":
+      if (!clear && !findModel(value)) {
+        session.writeCommandOutput(unknownModelMessage(value));
+        return;
+      }
+      update = sql`model = ${clear ? null : value}`;
+      break;
+    case "temperature": {
+      const temperature = Number(value);
+      if (!clear && !(temperature >= 0 && temperature <= 2)) {
+        session.writeCommandOutput("Temperature must be between 0 and 2.");
+        return;
+      }
+      update = sql`temperature = ${clear ? null : temperature}`;
+      break;
+    }
+    case "greeting":
+      update = sql`greeting = ${clear ? null : value}`;
+      break;
+  }
+
+  const [updated] = await sql`
+    UPDATE characters SET ${update}
+    WHERE owner_id = ${session.userId} AND LOWER(name) = LOWER(${name})
+    RETURNING id, name
+  `;
+  if (!updated) {
+    session.writeCommandOutput(`Character "${name}" not found.`);
+    return;
+  }
+  await reloadCurrent(session, updated.id);
+  session.writeCommandOutput(
+    clear
+      ? `Cleared the ${setting} of "${updated.name}".`
+      : `Set the ${setting} of "${updated.name}".`
+  );
+}
+
+async function findOwnExamples(
+  session: ClientSession,
+  name: string
+): Promise<{ id: string; name: string; examples: CharacterExample[] } | null> {
+  const [character] = await sql<
+    { id: string; name: string; examples: CharacterExample[] }[]
+  >`
+    SELECT id, name, examples FROM characters
+    WHERE owner_id = ${session.userId} AND LOWER(name) = LOWER(${name})
+  `;
+  if (!character) {
+    session.writeCommandOutput(`Character "${name}" not found.`);
+  }
+  return character ?? null;
+}
+
+async function saveExamples(
+  session: ClientSession,
+  id: string,
+  examples: CharacterExample[]
+) {
+  await sql`
+    UPDATE characters SET examples = ${jsonb(examples)}
+    WHERE id = ${id}
+  `;
+  await reloadCurrent(session, id);
+}
+
+async function addExample(
+  session: ClientSession,
+  name: string,
+  example: CharacterExample
+) {
+  if (!example.user || !example.assistant) {
+    session.writeCommandOutput("Both the message and the reply are needed.");
+    return;
+  }
+  const character = await findOwnExamples(session, name);
+  if (!character) {
+    return;
+  }
+  const examples = [...character.examples, example];
+  await saveExamples(session, character.id, examples);
+  session.writeCommandOutput(
+    `Added example ${examples.length} to "${character.name}".`
+  );
+}
+
+async function removeExample(
+  session: ClientSession,
+  name: string,
+  number: number
+) {
+  const character = await findOwnExamples(session, name);
+  if (!character) {
+    return;
+  }
+  if (number < 1 || number > character.examples.length) {
+    session.writeCommandOutput(
+      `"${character.name}" has ${character.examples.length} examples.`
+    );
+    return;
+  }
+  const examples = character.examples.filter(
+    (_, index) => index !== number - 1
+  );
+  await saveExamples(session, character.id, examples);
+  session.writeCommandOutput(
+    `Removed example ${number} from "${character.name}".`
+  );
+}
+
+async function showCharacter(session: ClientSession, reference: string) {
+  const character = await findCharacter(session, reference);
+  if (!character) {
+    session.writeCommandOutput(`Character "${reference}" not found.`);
+    return;
+  }
+
+  const created = new Date(character.created_at).toISOString().slice(0, 10);
+  let details = `\x1b[1m${character.owner}/${character.name}\x1b[0m (${character.visibility})\n`;
+  details += `Created ${created}, ${describeUses(
+    character.use_count
+  )}, ${describeRating(character)}\n`;
+  if (character.forked_from) {
+    details += `Forked from ${character.forked_from}\n`;
+  }
+  if (character.model) {
+    details += `Model: ${character.model}\n`;
+  }
+  if (character.temperature !== null) {
+    details += `Temperature: ${character.temperature}\n`;
+  }
+  details += `\nSystem prompt:\n${character.system_prompt}`;
+  if (character.greeting) {
+    details += `\n\nGreeting:\n${character.greeting}`;
+  }
+  character.examples.forEach((example, index) => {
+    details += `\n\nExample ${index + 1}:\nUser: ${example.user}\nAssistant: ${
+      example.assistant
+    }`;
+  });
+  session.writeCommandOutput(details);
+}
+
+async function shareCharacter(
+  session: ClientSession,
+  name: string,
+  visibility: Visibility
+) {
+  const [character] = await sql<{ name: string }[]>`
+    UPDATE characters SET visibility = ${visibility}
+    WHERE owner_id = ${session.userId} AND LOWER(name) = LOWER(${name})
+    RETURNING name
+  `;
+  if (!character) {
+    session.writeCommandOutput(`Character "${name}" not found.`);
+    return;
+  }
+
+  const reference = `${session.username}/${character.name}`;
+  const messages: Record<Visibility, string> = {
+    public: `"${reference}" is now public and listed in /char browse.`,
+    unlisted: `"${reference}" is now unlisted. Anyone you tell its name can use it.`,
+    private: `"${character.name}" is now private.`,
+  };
+  session.writeCommandOutput(messages[visibility]);
+}
+
+// Public characters, one page at a time
+function formatGallery(
+  title: string,
+  characters: (CharacterDetails & { total: number })[],
+  page: number
+): string {
+  const total = Number(characters[0].total);
+  const pages = Math.ceil(total / PAGE_SIZE);
+  let gallery = `${title}, page ${page} of ${pages}:\n`;
+  characters.forEach((character) => {
+    gallery += `- \x1b[1m${character.owner}/${
+      character.name
+    }\x1b[0m (${describeUses(character.use_count)}, ${describeRating(
+      character
+    )})\n    ${summary(character.system_prompt)}\n`;
+  });
+  gallery += "\nUse /char show <owner>/<name> to see one in full.";
+  return gallery;
+}
+
+async function browseCharacters(
+  session: ClientSession,
+  sort: Sort,
+  page: number
+) {
+  page = Math.max(1, page);
+  const characters = await sql<(CharacterDetails & { total: number })[]>`
+    ${DETAILS}
+    WHERE c.visibility = 'public'
+    ORDER BY ${SORTS[sort]}
+    LIMIT ${PAGE_SIZE} OFFSET ${(page - 1) * PAGE_SIZE}
+  `;
+  if (characters.length === 0) {
+    session.writeCommandOutput(
+      page === 1
+        ? "There are no public characters yet. Share one with /char share <name> public."
+        : `There is no page ${page}.`
+    );
+    return;
+  }
+
+  const titles: Record<Sort, string> = {
+    popular: "Most used characters",
+    top: "Best rated characters",
+    new: "Newest characters",
+  };
+  session.writeCommandOutput(formatGallery(titles[sort], characters, page));
+}
+
+async function searchCharacters(session: ClientSession, query: string) {
+  const pattern = `%${query.replace(/[\\%_]/g, "\\$&")}%`;
+  const characters = await sql<(CharacterDetails & { total: number })[]>`
+    ${DETAILS}
+    WHERE c.visibility = 'public'
+      AND (c.name ILIKE ${pattern} OR c.system_prompt ILIKE ${pattern}
+        OR a.username ILIKE ${pattern})
+    ORDER BY ${SORTS.popular}
+    LIMIT ${PAGE_SIZE}
+  `;
+  if (characters.length === 0) {
+    session.writeCommandOutput(`No public characters match "${query}".`);
+    return;
+  }
+  session.writeCommandOutput(
+    formatGallery(`Characters matching "${query}"`, characters, 1)
+  );
+}
+
+async function forkCharacter(
+  session: ClientSession,
+  reference: string,
+  newName: string | undefined
+) {
+  const original = await findCharacter(session, reference);
+  if (!original) {
+    session.writeCommandOutput(`Character "${reference}" not found.`);
+    return;
+  }
+
+  const name = newName ?? original.name;
+  if (!checkName(session, name)) {
+    return;
+  }
+  if (await ownCharacterExists(session, name)) {
+    session.writeCommandOutput(
+      `You already have a character named "${name}". Fork it under another name with /char fork ${reference} <new_name>.`
+    );
+    return;
+  }
+
+  await sql`
+    INSERT INTO characters (id, owner_id, name, system_prompt, model,
+      temperature, greeting, examples, forked_from)
+    VALUES (${uuidv4()}, ${session.userId}, ${name},
+      ${original.system_prompt}, ${original.model}, ${original.temperature},
+      ${original.greeting}, ${jsonb(original.examples)},
+      ${original.id})
+  `;
+  session.writeCommandOutput(
+    `Forked ${original.owner}/${original.name} as "${name}". Change it with /char edit ${name} <prompt>.`
+  );
+}
+
+async function deleteCharacter(session: ClientSession, name: string) {
+  const [deleted] = await sql`
+    DELETE FROM characters
+    WHERE owner_id = ${session.userId} AND LOWER(name) = LOWER(${name})
+    RETURNING id, name
+  `;
+  if (!deleted) {
+    session.writeCommandOutput(`Character "${name}" not found.`);
+    return;
+  }
+
+  if (session.currentCharacter?.id === deleted.id) {
+    clearCharacter(session);
+  }
+  session.writeCommandOutput(`Character "${deleted.name}" deleted.`);
+}
+
+async function rateCharacter(
+  session: ClientSession,
+  reference: string,
+  rating: number
+) {
+  const character = await findCharacter(session, reference);
+  if (!character) {
+    session.writeCommandOutput(`Character "${reference}" not found.`);
+    return;
+  }
+  if (character.owner_id === session.userId) {
+    session.writeCommandOutput("You can't rate your own characters.");
+    return;
+  }
+
+  await sql`
+    INSERT INTO character_ratings (character_id, account_id, rating)
+    VALUES (${character.id}, ${session.userId}, ${rating})
+    ON CONFLICT (character_id, account_id)
+    DO UPDATE SET rating = EXCLUDED.rating, created_at = CURRENT_TIMESTAMP
+  `;
+  session.writeCommandOutput(
+    `Rated ${character.owner}/${character.name} ${rating}/5.`
+  );
+}
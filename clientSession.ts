@@ -5,411 +5,282 @@ import {
   Message,
   Character,
   AutoLoginInfo,
+  TerminalInfo,
+  TerminalStream,
+  ContextMode,
 } from "./types";
-import { Stream } from "ssh2";
 import bcrypt from "bcrypt";
-import { guestCredits } from "./server";
-import { openai } from "./index";
-import { handleAdventure, handleAdventureMessage } from "./adventureMode";
-import { generateHelpMessage } from "./utils";
-
-// Add this new global variable
-let cachedModelList: any[] = [];
-
-// Add this new function to fetch and cache the model list
-export async function fetchAndCacheModelList() {
-  try {
-    const response = await openai.models.list();
-    cachedModelList = response.data;
-    console.log("Model list cached successfully");
-  } catch (error) {
-    console.error("Error caching model list:", error);
-  }
-}
+import {
+  DEFAULT_MODEL,
+  findModel,
+  getProviderForModel,
+  ModelInfo,
+  Usage,
+} from "./providers";
+import {
+  calculateCost,
+  CONFIRM_COST_THRESHOLD,
+  estimateRequestCost,
+  hasFixedPrice,
+  recordPromptUsage,
+} from "./pricing";
+import { handleAdventureMessage } from "./adventureMode";
+import { DEFAULT_TERMINAL } from "./utils";
+import { GUEST_CREDITS } from "./guestQuotas";
+import { autosaveConversation } from "./conversations";
+import { emptyTree, recordBranches } from "./branches";
+import {
+  CreditHold,
+  holdCredits,
+  recordTransaction,
+  refreshBalance,
+  releaseHold,
+  settleHold,
+} from "./credits";
+import {
+  DISABLE_BRACKETED_PASTE,
+  ENABLE_BRACKETED_PASTE,
+  LineEditor,
+} from "./lineEditor";
+import { appendCommandHistory, loadCommandHistory } from "./commandHistory";
+import { createOutputRenderer } from "./markdown";
+import { wrapText } from "./wordWrap";
+import { promptConfirm, promptPassword, promptText } from "./prompts";
+import { leaveRoom, sendRoomMessage } from "./rooms";
+import { contextMessages, fitContext, loadContextMode } from "./context";
+import { describeBan, findActiveBan } from "./admin";
+import { completeCommand, runCommand } from "./commands";
+import {
+  allowPrompt,
+  claimSession,
+  recordViolation,
+  releaseSession,
+} from "./rateLimits";
+
+const PROMPT = "\x1b[36m>\x1b[0m ";
+const CONTINUATION_PROMPT = "\x1b[36m…\x1b[0m ";
+
+// Color and text style escape sequences, left out for dumb terminals
+const SGR_PATTERN = /\x1b\[[0-9;]*m/g;
 
-// Add a constant for the profit rate
-const PROFIT_RATE = 1.5; // 50% margin
+// Credits given to new accounts (in USD)
+const SIGNUP_CREDITS = 0.3;
 
 export class ClientSession implements IClientSession {
   id: string;
-  buffer = "";
   lastRequest = 0;
   requestCount = 0;
   conversation: Message[] = [];
+  conversationId: string | null = null;
+  conversationTree = emptyTree();
+  contextStart = 0;
+  contextSummary: string | null = null;
+  contextMode: ContextMode = "summarize";
   startTime = Date.now();
-  model = "anthropic/claude-3.5-haiku:beta";
+  model = DEFAULT_MODEL;
   systemPrompt =
     "You are a helpful AI assistant accessed through a SSH service called question.sh. Keep responses concise and use simple formatting.";
   temperature = 0.5;
   userId: string | null = null;
   username: string | null = null;
-  credits = 0.05; // Default credits for unlogged users (in USD)
-  stream: Stream;
+  credits = GUEST_CREDITS; // Default credits for unlogged users (in USD)
+  stream: TerminalStream;
   currentCharacter: Character | null = null;
   isInAdventure: boolean = false;
   adventureConversation: Message[] = [];
   clientIP: string;
   public inputHandler: ((data: Buffer) => void) | null = null;
-  cursorPos: number = 0;
-  gameEndChoice: boolean = false;
   clientPublicKey: string | null = null;
-  private inputBuffer: string = "";
+  renderMarkdown = true;
+  terminal: TerminalInfo;
+  room: string | null = null;
+  spent = 0;
+  private lineEditor: LineEditor;
 
   constructor(
     id: string,
-    stream: Stream,
+    stream: TerminalStream,
     autoLoginInfo: AutoLoginInfo | null = null,
-    clientIP: string
+    clientIP: string,
+    terminal: TerminalInfo = DEFAULT_TERMINAL
   ) {
     this.id = id;
     this.stream = stream;
+    this.terminal = terminal;
     console.log(`New client session created: ${id}`);
 
     if (autoLoginInfo) {
       this.username = autoLoginInfo.username;
       this.userId = autoLoginInfo.userId;
       this.credits = autoLoginInfo.credits;
+      if (autoLoginInfo.selected_model) {
+        this.model = autoLoginInfo.selected_model;
+      }
       console.log(`Auto-logged in user: ${autoLoginInfo.username}`);
-      this.loadSelectedModel();
     }
 
     this.clientIP = clientIP;
+    this.lineEditor = new LineEditor({
+      prompt: PROMPT,
+      continuationPrompt: CONTINUATION_PROMPT,
+      write: (data) => this.stream.write(this.forTerminal(data)),
+      columns: () => this.terminal.cols,
+      onLine: (line) => this.handleLine(line),
+      onClose: () => this.terminateSession(),
+      onHistory: (line) => this.saveHistoryLine(line),
+      complete: (text) => completeCommand(this, text),
+    });
     this.setInputHandler();
+    // Pastes then arrive as one block instead of a line at a time
+    this.stream.write(ENABLE_BRACKETED_PASTE);
+    this.loadHistory();
+    loadContextMode(this);
+  }
+
+  // Terminal window resized by the client
+  resize(cols: number, rows: number) {
+    this.terminal = {
+      ...this.terminal,
+      cols: cols || this.terminal.cols,
+      rows: rows || this.terminal.rows,
+    };
+  }
+
+  private forTerminal(text: string): string {
+    return this.terminal.colors ? text : text.replace(SGR_PATTERN, "");
   }
 
   writeToStream(message: string, addPrompt: boolean = true) {
-    this.stream.write(message.replace(/\n/g, "\r\n"));
+    this.stream.write(this.forTerminal(message).replace(/\n/g, "\r\n"));
     if (addPrompt) {
-      this.stream.write(`\r\n\x1b[36m>\x1b[0m `);
-      this.cursorPos = 0;
+      this.stream.write("\r\n");
+      this.lineEditor.render();
     }
   }
 
   writeCommandOutput(message: string, addPrompt: boolean = true) {
-    const trimmedMessage = message.trim().replace(/\n/g, "\r\n");
+    const trimmedMessage = wrapText(
+      this.forTerminal(message.trim()),
+      this.terminal.cols
+    ).replace(/\n/g, "\r\n");
     this.stream.write("\r\n" + trimmedMessage);
     if (addPrompt) {
       this.stream.write("\r\n");
-      this.stream.write(`\x1b[36m>\x1b[0m `);
+      this.lineEditor.render();
     }
   }
 
-  async handleCommand(cmd: string): Promise<boolean> {
-    const [command, ...args] = cmd.trim().toLowerCase().split(" ");
-    console.log(`Command received: ${command}`);
-
-    switch (command) {
-      case "/reset":
-        this.conversation = [];
-        this.writeCommandOutput("Conversation history cleared.");
-        return true;
-
-      case "/history":
-        if (this.conversation.length === 0) {
-          this.writeCommandOutput("No conversation history.");
-          return true;
-        }
-        this.writeCommandOutput("\r\nConversation History:\r\n");
-        this.conversation.forEach((msg, i) => {
-          const role = msg.role === "user" ? "You" : "Assistant";
-          this.writeCommandOutput(`${role}: ${msg.content}\r\n`);
-        });
-        return true;
-
-      case "/stats":
-        const runtime = Math.floor((Date.now() - this.startTime) / 1000);
-        const messages = this.conversation.length;
-        const statsMessage = `Session Statistics:
-- Runtime: ${runtime} seconds
-- Messages: ${messages}
-- Current model: ${this.model}
-- Temperature: ${this.temperature}`;
-        this.writeCommandOutput(statsMessage);
-        return true;
-
-      case "/clear":
-        this.writeCommandOutput("\x1B[2J\x1B[H");
-        return true;
-
-      case "/system":
-        if (args.length > 0) {
-          this.systemPrompt = args.join(" ");
-          this.writeCommandOutput("System prompt updated.");
-        } else {
-          this.writeCommandOutput(
-            `Current system prompt: ${this.systemPrompt}`
-          );
-        }
-        return true;
+  // Show a message that arrives on its own, e.g. from another member of
+  // a room, above the line being typed
+  writeNotification(message: string) {
+    this.lineEditor.clear();
+    const wrapped = wrapText(this.forTerminal(message), this.terminal.cols);
+    this.stream.write(wrapped.replace(/\n/g, "\r\n") + "\r\n");
+    this.lineEditor.render();
+  }
 
-      case "/retry":
-        if (this.conversation.length < 2) {
-          this.writeCommandOutput("No previous message to retry.");
-          return true;
-        }
+  // Take the prompt off the screen before streaming output that arrives
+  // on its own. writeToStream() with addPrompt brings it back.
+  clearInput() {
+    this.lineEditor.clear();
+  }
 
-        // Parse temperature if provided
-        if (args[0]) {
-          const temp = parseFloat(args[0]);
-          if (!isNaN(temp) && temp >= 0 && temp <= 2) {
-            this.temperature = temp;
-          }
-        }
+  showPrompt() {
+    this.lineEditor.render();
+  }
 
-        // Remove last exchange
-        this.conversation.pop(); // Remove assistant's response
-        const lastUserMessage = this.conversation[this.conversation.length - 1];
+  async handleCommand(cmd: string): Promise<boolean> {
+    return runCommand(this, cmd);
+  }
 
+  // Returns whether the request went through
+  async streamResponse(userMessage: string): Promise<boolean> {
+    let hold: CreditHold | null = null;
+    try {
+      await refreshBalance(this);
+      if (this.credits <= 0) {
         this.writeCommandOutput(
-          `\r\nRetrying last message with temperature: ${this.temperature}\r\n\r\n`
+          "You have run out of credits. Please add more credits to continue."
         );
+        return false;
+      }
 
-        // Reprocess the last message
-        await this.streamResponse(lastUserMessage.content);
-        return true;
-
-      case "/register":
-        if (args.length > 0) {
-          this.writeCommandOutput("Usage: /register");
-          return true;
-        }
-        await this.handleInteractiveAuth("register");
-        return true;
-
-      case "/login":
-        if (args.length > 0) {
-          this.writeCommandOutput("Usage: /login");
-          return true;
-        }
-        await this.handleInteractiveAuth("login");
-        return true;
-
-      case "/char":
-        if (!this.userId) {
-          this.writeCommandOutput(
-            "You need to be logged in to manage characters. Please use /register or /login first."
-          );
-          return true;
-        }
-
-        if (args.length === 0) {
-          this.writeCommandOutput(
-            "Usage:\n" +
-              "  /char list                    - List your characters\n" +
-              "  /char new <name> <prompt>     - Create a new character\n" +
-              "  /char edit <name> <prompt>    - Modify a character\n" +
-              "  /char use <name>             - Set active character\n" +
-              "  /char clear                  - Clear active character"
-          );
-          return true;
-        }
-
-        const [subcommand, ...subargs] = args;
+      const modelInfo = findModel(this.model);
+      if (!modelInfo || !hasFixedPrice(modelInfo)) {
+        this.writeCommandOutput(
+          `Pricing for ${this.model} is unknown. Use /model to pick a listed model.`
+        );
+        return false;
+      }
 
-        switch (subcommand) {
-          case "new":
-            if (subargs.length < 2) {
-              this.writeCommandOutput(
-                "Usage: /char new <name> <system_prompt>"
-              );
-              return true;
-            }
-            const [characterName, ...promptParts] = subargs;
-            const systemPrompt = promptParts.join(" ");
-
-            try {
-              await sql`
-                INSERT INTO characters (id, owner_id, name, system_prompt)
-                VALUES (${uuidv4()}, ${
-                this.userId
-              }, ${characterName}, ${systemPrompt})
-                RETURNING id
-              `;
-              this.writeCommandOutput(
-                `Character "${characterName}" created successfully.`
-              );
-            } catch (error) {
-              console.error("Failed to create character:", error);
-              this.writeCommandOutput(
-                `Failed to create character. ${(error as Error).message}`
-              );
-            }
-            return true;
-
-          case "edit":
-            if (subargs.length < 2) {
-              this.writeCommandOutput(
-                "Usage: /char edit <name> <system_prompt>"
-              );
-              return true;
-            }
-            const [editName, ...newPromptParts] = subargs;
-            const newSystemPrompt = newPromptParts.join(" ");
-
-            try {
-              const result = await sql`
-                UPDATE characters
-                SET system_prompt = ${newSystemPrompt}
-                WHERE owner_id = ${this.userId} AND name = ${editName}
-              `;
-              if (result.count > 0) {
-                this.writeCommandOutput(
-                  `Character "${editName}" updated successfully.`
-                );
-              } else {
-                this.writeCommandOutput(`Character "${editName}" not found.`);
-              }
-            } catch (error) {
-              console.error("Failed to update character:", error);
-              this.writeCommandOutput(
-                `Failed to update character. ${(error as Error).message}`
-              );
-            }
-            return true;
-
-          case "list":
-            try {
-              const characters = await sql`
-                SELECT name, system_prompt
-                FROM characters
-                WHERE owner_id = ${this.userId}
-              `;
-              if (characters.length === 0) {
-                this.writeCommandOutput("You don't have any characters yet.");
-              } else {
-                let characterList = "Your characters:\n";
-                characters.forEach((character) => {
-                  characterList += `- ${character.name}: ${character.system_prompt}\n`;
-                });
-                this.writeCommandOutput(characterList);
-              }
-            } catch (error) {
-              console.error("Failed to list characters:", error);
-              this.writeCommandOutput(
-                `Failed to list characters. ${(error as Error).message}`
-              );
-            }
-            return true;
+      // Older turns may have to go to stay within the context window
+      if (!(await fitContext(this, modelInfo, userMessage))) {
+        return false;
+      }
+      const messages = contextMessages(this, userMessage);
 
-          case "use":
-            if (subargs.length !== 1) {
-              this.writeCommandOutput("Usage: /char use <character_name>");
-              return true;
-            }
-            const useName = subargs[0];
-            try {
-              const [character] = await sql<Character[]>`
-                SELECT id, name, system_prompt
-                FROM characters
-                WHERE owner_id = ${this.userId} AND name = ${useName}
-              `;
-              if (character) {
-                this.currentCharacter = character;
-                this.writeCommandOutput(
-                  `Now using character "${character.name}".`
-                );
-              } else {
-                this.writeCommandOutput(`Character "${useName}" not found.`);
-              }
-            } catch (error) {
-              console.error("Failed to set character:", error);
-              this.writeCommandOutput(
-                `Failed to set character. ${(error as Error).message}`
-              );
-            }
-            return true;
-
-          case "clear":
-            this.currentCharacter = null;
-            this.writeCommandOutput(
-              "Cleared current character. Using default settings."
-            );
-            return true;
-
-          default:
-            this.writeCommandOutput(
-              "Unknown subcommand. Use /char for usage help."
-            );
-            return true;
-        }
+      // Cap the completion to what the balance can pay for, and hold the
+      // worst case until the real usage is known
+      const estimate = estimateRequestCost(modelInfo, messages, this.credits);
+      if (!estimate) {
+        const balance = this.credits.toFixed(4);
+        this.writeCommandOutput(
+          `Your balance of $${balance} is not enough for this request on ${this.model}.\n` +
+            "Use /reset to shorten the conversation or /model to pick a cheaper model."
+        );
+        return false;
+      }
 
-      case "/adventure":
-        if (this.isInAdventure) {
-          this.writeCommandOutput(
-            "You are already in an adventure. Type 'exit' to leave the adventure mode."
-          );
-        } else {
-          await handleAdventure(this, "start");
-        }
-        return true;
-
-      case "/help":
-        const helpMessage = generateHelpMessage();
-        this.writeCommandOutput(helpMessage);
-        return true;
-
-      case "/model":
-        if (args.length === 0) {
-          await this.listModels();
-        } else {
-          const modelName = args.join(" ");
-          await this.selectModel(modelName);
+      const { promptTokens, maxTokens, worstCaseCost } = estimate;
+      if (worstCaseCost >= CONFIRM_COST_THRESHOLD) {
+        const confirmed = await promptConfirm(
+          this,
+          `This request may cost up to $${worstCaseCost.toFixed(4)} ` +
+            `(~${promptTokens} prompt tokens, up to ${maxTokens} completion tokens). Continue?`
+        );
+        if (!confirmed) {
+          this.writeCommandOutput("Request cancelled.");
+          return false;
         }
-        return true;
+      }
 
-      case "/balance":
+      hold = await holdCredits(this, worstCaseCost);
+      if (!hold) {
         this.writeCommandOutput(
-          `Your current balance is $${this.credits.toFixed(4)} credits.`
+          "Your balance changed and no longer covers this request. Check /balance."
         );
-        return true;
-
-      default:
         return false;
-    }
-  }
-
-  async streamResponse(userMessage: string): Promise<void> {
-    if (this.credits <= 0) {
-      this.writeCommandOutput(
-        "You have run out of credits. Please add more credits to continue."
-      );
-      return;
-    }
+      }
 
-    try {
       console.log(
-        `[${this.id}] Starting stream response for model: ${this.model}`
+        `[${this.id}] Starting stream response for model: ${this.model}`,
+        { maxTokens, reserved: worstCaseCost }
       );
-      const stream = await openai.chat.completions.create({
-        model:
-          this.model === "anthropic/claude-3.5-sonnet"
-            ? "anthropic/claude-3.5-sonnet"
-            : this.model,
-        messages: [
-          { role: "system", content: this.systemPrompt },
-          ...this.conversation.map((msg) => ({
-            role: msg.role,
-            content: msg.content,
-          })),
-          { role: "user", content: userMessage },
-        ],
-        stream: true,
+      const stream = getProviderForModel(this.model).streamChat({
+        model: this.model,
+        messages,
+        temperature: this.temperature,
+        maxTokens,
       });
 
       let fullResponse = "";
       let isFirstChunk = true;
-      let usage: {
-        prompt_tokens: number;
-        completion_tokens: number;
-        total_tokens: number;
-      } | null = null;
+      let usage: Usage | null = null;
+      const output = createOutputRenderer(this);
 
       // Move the cursor to the beginning of the line and clear it
       this.writeToStream("\r\x1b[K", false);
 
+      if (estimate.limitedByBalance) {
+        this.writeToStream(
+          `\n\x1b[2mResponse limited to ${maxTokens} tokens by your balance.\x1b[0m`,
+          false
+        );
+      }
+
       for await (const chunk of stream) {
-        if (chunk.choices[0]?.delta?.content) {
-          const content = chunk.choices[0].delta.content;
+        if (chunk.type === "text") {
+          const content = chunk.content;
           fullResponse += content;
 
           if (isFirstChunk) {
@@ -418,11 +289,11 @@ export class ClientSession implements IClientSession {
             isFirstChunk = false;
           }
 
-          this.writeToStream(content, false);
+          output.push(content);
         }
 
-        // Check if this is the last chunk with usage information
-        if (chunk.usage) {
+        // The last chunk carries the usage information
+        if (chunk.type === "usage") {
           usage = chunk.usage;
           console.log(
             `[${this.id}] Received usage data:`,
@@ -431,39 +302,38 @@ export class ClientSession implements IClientSession {
         }
       }
 
+      output.end();
       this.writeToStream("\n");
       this.conversation.push({ role: "user", content: userMessage });
       this.conversation.push({
         role: "assistant",
         content: fullResponse.trim(),
+        model: this.model,
+        temperature: this.temperature,
       });
+      recordBranches(this);
+      await autosaveConversation(this);
 
       if (usage) {
-        // Calculate the cost of the request using the accurate usage data
-        const cost = this.calculateRequestCost(usage);
-        this.credits -= cost;
-
-        // Update credits in the database or guest credits map
-        await this.updateCredits();
-
-        // console.log(
-        //   `[${this.id}] Request cost: $${cost.toFixed(
-        //     4
-        //   )}, Remaining credits: $${this.credits.toFixed(4)}`
-        // );
-        // this.writeCommandOutput(
-        //   `Request cost: $${cost.toFixed(
-        //     4
-        //   )}. Remaining credits: $${this.credits.toFixed(4)}`
-        // );
+        // Settle the reservation against the accurate usage data
+        const cost = this.calculateRequestCost(modelInfo, usage);
+        await settleHold(this, hold, cost, usage);
+        recordPromptUsage(this.model, messages, usage);
       } else {
+        await releaseHold(this, hold);
         console.error(`[${this.id}] Usage data not received from the API`);
         this.writeCommandOutput(
           "Unable to calculate request cost due to missing usage data."
         );
       }
+      return true;
     } catch (error) {
       console.error(`[${this.id}] Error querying model:`, error);
+      if (hold) {
+        await releaseHold(this, hold).catch((releaseError) =>
+          console.error(`[${this.id}] Error releasing credits:`, releaseError)
+        );
+      }
       let errorMessage = "Error, use /model to try another model.";
       if (error instanceof Error) {
         errorMessage += ` ${error.name}: ${error.message}`;
@@ -472,53 +342,20 @@ export class ClientSession implements IClientSession {
         }
       }
       this.writeCommandOutput(`\x1b[31m${errorMessage}\x1b[0m`);
+      return false;
     }
   }
 
-  private calculateRequestCost(usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  }): number {
+  private calculateRequestCost(modelInfo: ModelInfo, usage: Usage): number {
     console.log(
-      `[${this.id}] Calculating request cost for model: ${this.model}`
-    );
-    const modelPricing = cachedModelList.find(
-      (m) => m.id === this.model
-    )?.pricing;
-    if (!modelPricing) {
-      console.error(`[${this.id}] Pricing not found for model: ${this.model}`);
-      return 0;
-    }
-
-    console.log(`[${this.id}] Model pricing:`, JSON.stringify(modelPricing));
-    const promptCost = parseFloat(modelPricing.prompt) * usage.prompt_tokens;
-    const completionCost =
-      parseFloat(modelPricing.completion) * usage.completion_tokens;
-    const totalCost = (promptCost + completionCost) * PROFIT_RATE;
-
-    console.log(
-      `[${this.id}] Cost breakdown - Prompt: $${promptCost.toFixed(
-        6
-      )}, Completion: $${completionCost.toFixed(
-        6
-      )}, Total (with profit): $${totalCost.toFixed(6)}`
+      `[${this.id}] Calculating request cost for model: ${this.model}`,
+      JSON.stringify(modelInfo.pricing)
     );
+    const totalCost = calculateCost(modelInfo, usage);
+    console.log(`[${this.id}] Total (with profit): $${totalCost.toFixed(6)}`);
     return totalCost;
   }
 
-  private async updateCredits(): Promise<void> {
-    if (this.username && this.username !== "guest") {
-      await sql`
-        UPDATE accounts
-        SET credits = ${this.credits}
-        WHERE username = ${this.username}
-      `;
-    } else {
-      guestCredits.set(this.clientIP, this.credits);
-    }
-  }
-
   async handleMessage(message: string): Promise<void> {
     if (message.trim().toLowerCase() === "exit") {
       this.terminateSession();
@@ -526,7 +363,9 @@ export class ClientSession implements IClientSession {
     }
 
     if (this.isInAdventure) {
-      await handleAdventureMessage(this, message);
+      if (allowPrompt(this)) {
+        await handleAdventureMessage(this, message);
+      }
       return;
     }
 
@@ -535,12 +374,19 @@ export class ClientSession implements IClientSession {
       if (handled) return;
     }
 
+    if (this.room) {
+      await sendRoomMessage(this, message);
+      return;
+    }
+
+    if (!allowPrompt(this)) {
+      return;
+    }
+
     await this.streamResponse(message);
   }
 
-  private async handleInteractiveAuth(mode: "login" | "register") {
-    const stream = this.stream;
-
+  async handleInteractiveAuth(mode: "login" | "register") {
     // Function to validate input
     const validateInput = (
       input: string,
@@ -561,80 +407,33 @@ export class ClientSession implements IClientSession {
       return null;
     };
 
-    // Function to get input with validation
-    const getInput = async (
-      prompt: string,
-      type: "username" | "password" | "email"
-    ): Promise<string | null> => {
-      while (true) {
-        this.writeCommandOutput(prompt, false);
-        stream.write(" ");
-
-        const input = await new Promise<string | null>((resolve) => {
-          let inputBuffer = "";
-          const handler = (data: Buffer) => {
-            const char = data.toString();
-            if (char === "\x03") {
-              // Ctrl+C
-              stream.write("^C\n");
-              resolve(null);
-            } else if (char === "\r") {
-              stream.write("\n");
-              stream.removeListener("data", handler);
-              resolve(inputBuffer.trim());
-            } else if (char === "\x7f") {
-              // Backspace
-              if (inputBuffer.length > 0) {
-                inputBuffer = inputBuffer.slice(0, -1);
-                stream.write("\b \b");
-              }
-            } else {
-              inputBuffer += char;
-              stream.write(type === "password" ? "*" : char);
-            }
-          };
-          this.inputHandler = handler;
-        });
-
-        if (input === null) {
-          return null; // User pressed Ctrl+C
-        }
-
-        const validationError = validateInput(input, type);
-        if (validationError) {
-          this.writeCommandOutput(validationError);
-        } else {
-          return input;
-        }
-      }
-    };
-
-    const username = await getInput("Username:", "username");
+    const username = await promptText(this, "Username:", {
+      validate: (input) => validateInput(input, "username"),
+    });
     if (username === null) {
       this.writeCommandOutput("Signup cancelled.");
-      this.resetInputHandler();
       return;
     }
 
-    const password = await getInput("Password:", "password");
+    const password = await promptPassword(this, "Password:", {
+      validate: (input) => validateInput(input, "password"),
+    });
     if (password === null) {
       this.writeCommandOutput("Signup cancelled.");
-      this.resetInputHandler();
       return;
     }
 
     let email: string | null = "";
     if (mode === "register") {
-      email = await getInput("Email:", "email");
+      email = await promptText(this, "Email:", {
+        validate: (input) => validateInput(input, "email"),
+      });
       if (email === null) {
         this.writeCommandOutput("Signup cancelled.");
-        this.resetInputHandler();
         return;
       }
     }
 
-    this.inputHandler = null; // Clear the handler when done
-
     // Handle the auth based on mode
     if (mode === "register") {
       try {
@@ -647,14 +446,30 @@ export class ClientSession implements IClientSession {
         }
 
         const password_hash = await bcrypt.hash(password, 10);
-        const result = await sql`
-          INSERT INTO accounts (id, username, email, credits, password_hash)
-          VALUES (${uuidv4()}, ${username}, ${email}, 0.3, ${password_hash})
-          RETURNING id, credits
-        `;
-        this.userId = result[0].id;
+        // The account never exists without its welcome credits
+        const account = await sql.begin(async (tx) => {
+          const [created] = await tx`
+            INSERT INTO accounts (id, username, email, credits, password_hash)
+            VALUES (${uuidv4()}, ${username}, ${email}, 0, ${password_hash})
+            RETURNING id
+          `;
+          const balance = await recordTransaction(
+            tx,
+            created.id,
+            SIGNUP_CREDITS,
+            {
+              kind: "signup_bonus",
+              sessionId: this.id,
+              description: "Welcome credits",
+            }
+          );
+          return { id: created.id as string, balance };
+        });
+        this.releaseAccount();
+        this.userId = account.id;
         this.username = username;
-        this.credits = Number(result[0].credits);
+        claimSession(this.userId, this.id);
+        this.credits = account.balance;
         this.writeCommandOutput(
           `Registered successfully. Welcome, ${username}! You have $${this.credits.toFixed(
             4
@@ -682,13 +497,30 @@ export class ClientSession implements IClientSession {
           user.password_hash
         );
         if (!passwordMatch) {
+          recordViolation(this.clientIP);
           this.writeCommandOutput(`Invalid password.`);
           return;
         }
 
+        const ban = await findActiveBan(this.clientIP, user.id);
+        if (ban) {
+          this.writeCommandOutput(describeBan(ban));
+          return;
+        }
+
+        const limited = claimSession(user.id, this.id);
+        if (limited) {
+          this.writeCommandOutput(limited);
+          return;
+        }
+        if (this.userId !== user.id) {
+          this.releaseAccount();
+        }
         this.userId = user.id;
         this.username = username;
         this.credits = Number(user.credits);
+        await this.loadHistory();
+        await loadContextMode(this);
         this.writeCommandOutput(
           `Logged in successfully. Welcome back, ${username}! You have $${this.credits.toFixed(
             4
@@ -703,161 +535,73 @@ export class ClientSession implements IClientSession {
     }
   }
 
-  private resetInputHandler(): void {
-    this.inputHandler = null;
-    this.setInputHandler(); // Re-initialize the input handler
-    this.writeCommandOutput(""); // Write a new prompt
+  public setInputHandler(): void {
+    this.inputHandler = (data: Buffer) => this.lineEditor.feed(data);
   }
 
-  async loadSelectedModel() {
-    if (this.username && this.username !== "guest") {
-      try {
-        const [userInfo] = await sql<[{ selected_model: string }]>`
-          SELECT selected_model FROM accounts
-          WHERE username = ${this.username}
-        `;
-        if (userInfo && userInfo.selected_model) {
-          this.model = userInfo.selected_model;
-        }
-      } catch (error) {
-        console.error("Error loading selected model:", error);
-      }
+  // A line entered at the prompt
+  private async handleLine(line: string) {
+    const message = line.trim();
+
+    if (!message) {
+      this.lineEditor.render();
+      return;
     }
-  }
 
-  async listModels() {
+    // Nothing above this catches, and an unhandled rejection would take
+    // the server down for everyone
     try {
-      const modelList = cachedModelList
-        .sort((a, b) => b.created - a.created)
-        .slice(0, 50)
-        .map((model) => model.id)
-        .map((modelId) => {
-          const isSelected = modelId === this.model;
-          return isSelected
-            ? `\x1b[1m\x1b[35m${modelId} (current)\x1b[0m`
-            : modelId;
-        })
-        .join("\n");
-      this.writeCommandOutput(`Available models:\n${modelList}`);
+      await this.handleMessage(message);
     } catch (error) {
-      console.error("Error listing models:", error);
-      this.writeCommandOutput("Error listing models. Please try again later.");
+      console.error(`[${this.id}] Error handling input:`, error);
+      this.writeCommandOutput(
+        `\x1b[31mSomething went wrong. ${(error as Error).message}\x1b[0m`
+      );
     }
   }
 
-  async selectModel(modelId: string) {
+  // Recall lines entered in earlier sessions
+  private async loadHistory() {
+    if (!this.username || this.username === "guest") {
+      return;
+    }
     try {
-      this.model = modelId;
-      if (this.username && this.username !== "guest") {
-        await sql`
-          UPDATE accounts
-          SET selected_model = ${modelId}
-          WHERE username = ${this.username}
-        `;
-      }
-      this.writeCommandOutput(`Model selected: ${modelId}`);
+      this.lineEditor.setHistory(await loadCommandHistory(this.userId!));
     } catch (error) {
-      console.error("Error selecting model:", error);
-      this.writeCommandOutput("Error selecting model. Please try again.");
+      console.error("Failed to load command history:", error);
     }
   }
 
-  public setInputHandler(): void {
-    this.inputHandler = (data: Buffer) => {
-      const input = data.toString();
-
-      // Handle Ctrl+C
-      if (input === "\x03") {
-        this.terminateSession();
-        return;
-      }
-
-      // Handle arrow keys
-      if (input === "\x1b[C") {
-        // Right arrow
-        if (this.cursorPos < this.inputBuffer.length) {
-          this.cursorPos++;
-          this.redrawInputLine();
-        }
-        return;
-      }
-      if (input === "\x1b[D") {
-        // Left arrow
-        if (this.cursorPos > 0) {
-          this.cursorPos--;
-          this.redrawInputLine();
-        }
-        return;
-      }
-
-      // Ignore other escape sequences
-      if (input.startsWith("\x1b")) {
-        return;
-      }
-
-      // Handle regular input
-      if (input === "\r") {
-        // Enter key pressed
-        this.stream.write("\r\n");
-        const command = this.inputBuffer.trim();
-        this.inputBuffer = "";
-        this.cursorPos = 0;
-        this.handleMessage(command);
-      } else if (input === "\x7f") {
-        // Backspace
-        if (this.cursorPos > 0) {
-          this.inputBuffer =
-            this.inputBuffer.slice(0, this.cursorPos - 1) +
-            this.inputBuffer.slice(this.cursorPos);
-          this.cursorPos--;
-          this.redrawInputLine();
-        }
-      } else {
-        // Regular character input
-        this.inputBuffer =
-          this.inputBuffer.slice(0, this.cursorPos) +
-          input +
-          this.inputBuffer.slice(this.cursorPos);
-        this.cursorPos += input.length;
-        this.redrawInputLine();
-      }
-    };
+  private saveHistoryLine(line: string) {
+    if (!this.username || this.username === "guest") {
+      return;
+    }
+    appendCommandHistory(this.userId!, line).catch((error) => {
+      console.error("Failed to save command history:", error);
+    });
   }
 
-  private redrawInputLine(): void {
-    const prompt = `\r\x1b[36m>\x1b[0m `;
-    const inputLine = this.inputBuffer;
-
-    // Clear the current line and move cursor to the beginning
-    this.stream.write("\r\x1b[K");
-
-    // Write the prompt and input buffer
-    this.stream.write(prompt + inputLine);
-
-    // Move the cursor to the correct position
-    const cursorOffset = inputLine.length - this.cursorPos;
-    if (cursorOffset > 0) {
-      this.stream.write(`\x1b[${cursorOffset}D`);
-    }
+  terminateSession(message: string = "Session terminated. Goodbye!"): void {
+    this.writeCommandOutput(`\r\n${message}`, false);
+    this.stream.write(DISABLE_BRACKETED_PASTE);
+    this.stream.end();
+    this.cleanup();
   }
 
-  private handlePastedContent(data: Buffer): void {
-    const pastedContent = data.toString().trim();
-    this.inputBuffer =
-      this.inputBuffer.slice(0, this.cursorPos) +
-      pastedContent +
-      this.inputBuffer.slice(this.cursorPos);
-    this.cursorPos += pastedContent.length;
-    this.redrawInputLine();
+  // The client went away: give up the room and the account's session slot
+  handleDisconnect(): void {
+    leaveRoom(this);
+    this.releaseAccount();
   }
 
-  private terminateSession(): void {
-    this.writeCommandOutput("\r\nSession terminated. Goodbye!");
-    this.stream.end();
-    this.cleanup();
+  private releaseAccount(): void {
+    if (this.username && this.username !== "guest") {
+      releaseSession(this.userId!, this.id);
+    }
   }
 
   private cleanup(): void {
+    this.handleDisconnect();
     this.stream.removeAllListeners();
     // Add any other necessary cleanup tasks here
   }
@@ -0,0 +1,36 @@
+import { sql } from "./database";
+
+// Lines kept per account, older ones are pruned as new ones come in
+export const HISTORY_LIMIT = 500;
+
+const MAX_LINE_LENGTH = 4000;
+
+export async function loadCommandHistory(accountId: string): Promise<string[]> {
+  const rows = await sql<{ line: string }[]>`
+    SELECT line FROM command_history
+    WHERE account_id = ${accountId}
+    ORDER BY id DESC
+    LIMIT ${HISTORY_LIMIT}
+  `;
+  return rows.map((row) => row.line).reverse();
+}
+
+export async function appendCommandHistory(accountId: string, line: string) {
+  if (line.length > MAX_LINE_LENGTH) {
+    return;
+  }
+
+  await sql`
+    INSERT INTO command_history (account_id, line)
+    VALUES (${accountId}, ${line})
+  `;
+  await sql`
+    DELETE FROM command_history
+    WHERE account_id = ${accountId} AND id <= (
+      SELECT id FROM command_history
+      WHERE account_id = ${accountId}
+      ORDER BY id DESC
+      OFFSET ${HISTORY_LIMIT} LIMIT 1
+    )
+  `;
+}
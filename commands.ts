@@ -0,0 +1,584 @@
+import { ClientSession } from "./types";
+import { getModelList } from "./providers";
+import { generateHelpMessage } from "./utils";
+import { splitArguments } from "./arguments";
+import {
+  deleteConversation,
+  listConversations,
+  openConversation,
+  saveConversation,
+} from "./conversations";
+import { handleKeyCommand, KEY_USAGE } from "./sshKeys";
+import {
+  CHARACTER_USAGE,
+  completeCharacterNames,
+  handleCharacterCommand,
+} from "./characters";
+import { handleAdventure } from "./adventureMode";
+import { handleRoomCommand, ROOM_USAGE } from "./rooms";
+import { ADMIN_USAGE, handleAdminCommand } from "./admin";
+import { refreshBalance, showUsage } from "./credits";
+import {
+  FILTER_OPTIONS,
+  handleModelCommand,
+  MODEL_SUBCOMMANDS,
+  MODEL_USAGE,
+  modelProviders,
+} from "./models";
+import { describeNextRefill } from "./guestQuotas";
+import { allowPrompt } from "./rateLimits";
+import { CONTEXT_USAGE, handleContextCommand, resetContext } from "./context";
+import {
+  describeAlternatives,
+  editMessage,
+  emptyTree,
+  recordBranches,
+  showTree,
+  switchAlternative,
+  truncateConversation,
+} from "./branches";
+
+export interface Command {
+  // With the slash, e.g. "/model"
+  name: string;
+  // How the arguments are written, e.g. "<id>" or "[on|off]"
+  args?: string;
+  // One line for /help
+  summary: string;
+  // More for /help <command>, such as its subcommands
+  usage?: string;
+  // Argument counts outside these show the usage instead of running
+  minArgs?: number;
+  maxArgs?: number;
+  // text is everything after the name as typed, for commands taking free
+  // text, which keeps quotes, spacing and line breaks that args lose
+  run: (
+    session: ClientSession,
+    args: string[],
+    text: string
+  ) => Promise<void> | void;
+  // Candidates for the argument being typed, given the ones before it.
+  // Those not starting with what was typed are left out afterwards.
+  complete?: (
+    session: ClientSession,
+    args: string[],
+    partial: string
+  ) => Promise<string[]> | string[];
+}
+
+function modelIds(): string[] {
+  return getModelList().map((model) => model.id);
+}
+
+// Subcommands first, then whatever the chosen subcommand takes
+function subcommandCompleter(
+  subcommands: string[],
+  completeArgs?: Record<
+    string,
+    (
+      session: ClientSession,
+      args: string[],
+      partial: string
+    ) => Promise<string[]> | string[]
+  >
+): Command["complete"] {
+  return (session, args, partial) => {
+    if (args.length === 0) {
+      return subcommands;
+    }
+    const complete = completeArgs?.[args[0].toLowerCase()];
+    return complete ? complete(session, args.slice(1), partial) : [];
+  };
+}
+
+// The first argument is a character name
+const characterArgument = (
+  session: ClientSession,
+  args: string[],
+  partial: string
+) => (args.length === 0 ? completeCharacterNames(session, partial) : []);
+
+export const COMMANDS: Command[] = [
+  {
+    name: "/reset",
+    summary: "Clear conversation history",
+    maxArgs: 0,
+    run: (session) => {
+      session.conversation = [];
+      session.conversationId = null;
+      session.conversationTree = emptyTree();
+      resetContext(session);
+      session.writeCommandOutput("Conversation history cleared.");
+    },
+  },
+  {
+    name: "/history",
+    summary: "Show conversation history",
+    maxArgs: 0,
+    run: (session) => {
+      if (session.conversation.length === 0) {
+        session.writeCommandOutput("No conversation history.");
+        return;
+      }
+      recordBranches(session);
+      session.writeCommandOutput("\r\nConversation History:\r\n");
+      session.conversation.forEach((msg, i) => {
+        const role = msg.role === "user" ? "You" : "Assistant";
+        session.writeCommandOutput(
+          `${i + 1}. ${role}${describeAlternatives(session, i)}: ${
+            msg.content
+          }\r\n`
+        );
+      });
+    },
+  },
+  {
+    name: "/save",
+    args: "[title]",
+    summary: "Save the conversation to your account",
+    run: (session, _, text) => saveConversation(session, text),
+  },
+  {
+    name: "/conversations",
+    summary: "List your saved conversations",
+    maxArgs: 0,
+    run: (session) => listConversations(session),
+  },
+  {
+    name: "/open",
+    args: "<id>",
+    summary: "Resume a saved conversation",
+    minArgs: 1,
+    maxArgs: 1,
+    run: (session, args) => openConversation(session, args[0]),
+  },
+  {
+    name: "/delete",
+    args: "<id>",
+    summary: "Delete a saved conversation",
+    minArgs: 1,
+    maxArgs: 1,
+    run: (session, args) => deleteConversation(session, args[0]),
+  },
+  {
+    name: "/context",
+    args: "[mode drop|summarize]",
+    summary: "Show how much of the context window is used",
+    usage: CONTEXT_USAGE,
+    run: (session, args) => handleContextCommand(session, args),
+    complete: (_, args) =>
+      args.length === 0
+        ? ["mode"]
+        : args.length === 1
+        ? ["drop", "summarize"]
+        : [],
+  },
+  {
+    name: "/stats",
+    summary: "Show session statistics",
+    maxArgs: 0,
+    run: (session) => {
+      const runtime = Math.floor((Date.now() - session.startTime) / 1000);
+      session.writeCommandOutput(`Session Statistics:
+- Runtime: ${runtime} seconds
+- Messages: ${session.conversation.length}
+- Prompts sent: ${session.requestCount}
+- Current model: ${session.model}
+- Temperature: ${session.temperature}`);
+    },
+  },
+  {
+    name: "/system",
+    args: "[prompt]",
+    summary: "Show or set the system prompt",
+    run: (session, _, text) => {
+      if (text) {
+        session.systemPrompt = text;
+        session.writeCommandOutput("System prompt updated.");
+      } else {
+        session.writeCommandOutput(
+          `Current system prompt: ${session.systemPrompt}`
+        );
+      }
+    },
+  },
+  {
+    name: "/clear",
+    summary: "Clear screen",
+    maxArgs: 0,
+    run: (session) => session.writeCommandOutput("\x1B[2J\x1B[H"),
+  },
+  {
+    name: "/retry",
+    args: "[temperature]",
+    summary: "Retry the last message, optionally with another temperature",
+    usage:
+      "For example /retry 0.8. The temperature goes from 0 to 2.\n" +
+      "The previous answer is kept, /alt prev goes back to it.",
+    maxArgs: 1,
+    run: async (session, args) => {
+      const length = session.conversation.length;
+      if (
+        length < 2 ||
+        session.conversation[length - 1].role !== "assistant" ||
+        session.conversation[length - 2].role !== "user"
+      ) {
+        session.writeCommandOutput("No previous message to retry.");
+        return;
+      }
+
+      if (args[0]) {
+        const temp = parseFloat(args[0]);
+        if (!isNaN(temp) && temp >= 0 && temp <= 2) {
+          session.temperature = temp;
+        }
+      }
+
+      if (!allowPrompt(session)) {
+        return;
+      }
+
+      // Send the last message again. The answer becomes an alternative
+      // to the previous one, which stays in the tree.
+      const lastUserMessage = session.conversation[length - 2];
+      const restore = truncateConversation(session, length - 2);
+
+      session.writeCommandOutput(
+        `\r\nRetrying last message with temperature: ${session.temperature}\r\n\r\n`
+      );
+      if (!(await session.streamResponse(lastUserMessage.content))) {
+        // Nothing was added, so the previous answer is still the one in use
+        restore();
+      }
+    },
+  },
+  {
+    name: "/alt",
+    args: "<next|prev> [n]",
+    summary: "Switch to another answer or version of a message",
+    usage:
+      "Without n, switches the latest message that has alternatives. /history numbers the messages.",
+    minArgs: 1,
+    maxArgs: 2,
+    run: async (session, args) => {
+      const direction = args[0].toLowerCase();
+      const number = args[1] === undefined ? undefined : Number(args[1]);
+      if (
+        (direction !== "next" && direction !== "prev") ||
+        (number !== undefined && !(Number.isInteger(number) && number > 0))
+      ) {
+        session.writeCommandOutput("Usage: /alt <next|prev> [n]");
+        return;
+      }
+      await switchAlternative(session, direction, number);
+    },
+    complete: (_, args) => (args.length === 0 ? ["next", "prev"] : []),
+  },
+  {
+    name: "/edit",
+    args: "<n> <message>",
+    summary: "Rewrite one of your messages, keeping the original as a branch",
+    usage:
+      "/history numbers the messages. The conversation continues from the new version.",
+    minArgs: 2,
+    run: async (session, args, text) => {
+      const number = Number(args[0]);
+      if (!(Number.isInteger(number) && number > 0)) {
+        session.writeCommandOutput("Usage: /edit <n> <message>");
+        return;
+      }
+      // The message as typed, after the number
+      await editMessage(session, number, text.replace(/^\S+\s+/, ""));
+    },
+  },
+  {
+    name: "/tree",
+    summary: "Show every branch of the conversation",
+    maxArgs: 0,
+    run: (session) => showTree(session),
+  },
+  {
+    name: "/register",
+    summary: "Register a new account",
+    maxArgs: 0,
+    run: (session) => session.handleInteractiveAuth("register"),
+  },
+  {
+    name: "/login",
+    summary: "Login to an existing account",
+    maxArgs: 0,
+    run: (session) => session.handleInteractiveAuth("login"),
+  },
+  {
+    name: "/key",
+    args: "<add|list|remove>",
+    summary: "Manage SSH keys for automatic login",
+    usage: KEY_USAGE,
+    run: (session, args) => handleKeyCommand(session, args),
+    complete: subcommandCompleter(["add", "list", "remove"]),
+  },
+  {
+    name: "/char",
+    args: "<subcommand>",
+    summary: "Manage characters and browse the gallery",
+    usage: CHARACTER_USAGE,
+    run: (session, args, text) => handleCharacterCommand(session, args, text),
+    complete: subcommandCompleter(
+      [
+        "list",
+        "new",
+        "edit",
+        "set",
+        "example",
+        "delete",
+        "use",
+        "clear",
+        "show",
+        "share",
+        "browse",
+        "search",
+        "fork",
+        "rate",
+      ],
+      {
+        edit: characterArgument,
+        delete: characterArgument,
+        use: characterArgument,
+        show: characterArgument,
+        fork: characterArgument,
+        rate: characterArgument,
+        example: (session, args, partial) =>
+          args.length === 0
+            ? completeCharacterNames(session, partial)
+            : args.length === 1
+            ? ["add", "remove"]
+            : [],
+        share: (session, args, partial) =>
+          args.length === 0
+            ? completeCharacterNames(session, partial)
+            : args.length === 1
+            ? ["public", "unlisted", "private"]
+            : [],
+        set: (session, args, partial) =>
+          args.length === 0
+            ? completeCharacterNames(session, partial)
+            : args.length === 1
+            ? ["model", "temperature", "greeting"]
+            : args.length === 2 && args[1].toLowerCase() === "model"
+            ? modelIds()
+            : [],
+        browse: (_, args) =>
+          args.length === 0 ? ["popular", "top", "new"] : [],
+      }
+    ),
+  },
+  {
+    name: "/adventure",
+    summary: "Start a text-based RPG adventure",
+    maxArgs: 0,
+    run: async (session) => {
+      if (session.isInAdventure) {
+        session.writeCommandOutput(
+          "You are already in an adventure. Type 'exit' to leave the adventure mode."
+        );
+        return;
+      }
+      await handleAdventure(session, "start");
+    },
+  },
+  {
+    name: "/room",
+    args: "<subcommand>",
+    summary: "Chat with others in a shared room",
+    usage: ROOM_USAGE,
+    run: (session, args) => handleRoomCommand(session, args),
+    complete: subcommandCompleter(["create", "join", "leave", "who", "list"]),
+  },
+  {
+    name: "/model",
+    args: "[subcommand|model_id]",
+    summary: "Browse, search and select models",
+    usage: MODEL_USAGE,
+    run: (session, args) => handleModelCommand(session, args),
+    complete: (_, args) => {
+      if (args.length === 0) {
+        return [...MODEL_SUBCOMMANDS, ...modelIds()];
+      }
+      switch (args[0].toLowerCase()) {
+        case "info":
+        case "use":
+        case "fav":
+        case "unfav":
+          return args.length === 1 ? modelIds() : [];
+        case "list":
+        case "search":
+          return args[args.length - 1].toLowerCase() === "--provider"
+            ? modelProviders()
+            : FILTER_OPTIONS;
+        default:
+          return [];
+      }
+    },
+  },
+  {
+    name: "/balance",
+    summary: "Check your current credit balance",
+    maxArgs: 0,
+    run: async (session) => {
+      try {
+        await refreshBalance(session);
+      } catch (error) {
+        console.error("Failed to load balance:", error);
+        session.writeCommandOutput(
+          `Failed to load your balance. ${(error as Error).message}`
+        );
+        return;
+      }
+      session.writeCommandOutput(
+        `Your current balance is $${session.credits.toFixed(4)} credits.` +
+          (session.username === "guest" ? `\n${describeNextRefill()}` : "")
+      );
+    },
+  },
+  {
+    name: "/usage",
+    summary: "Show your recent transactions",
+    maxArgs: 0,
+    run: (session) => showUsage(session),
+  },
+  {
+    name: "/markdown",
+    args: "[on|off]",
+    summary: "Toggle Markdown rendering of responses",
+    maxArgs: 1,
+    run: (session, args) => {
+      const setting = args[0]?.toLowerCase();
+      if (setting === "on" || setting === "off") {
+        session.renderMarkdown = setting === "on";
+      } else if (setting === undefined) {
+        session.renderMarkdown = !session.renderMarkdown;
+      } else {
+        session.writeCommandOutput("Usage: /markdown [on|off]");
+        return;
+      }
+      session.writeCommandOutput(
+        `Markdown rendering ${session.renderMarkdown ? "on" : "off"}.`
+      );
+    },
+    complete: (_, args) => (args.length === 0 ? ["on", "off"] : []),
+  },
+  {
+    name: "/admin",
+    args: "<subcommand>",
+    summary: "Administration, for admins only",
+    usage: ADMIN_USAGE,
+    run: (session, args) => handleAdminCommand(session, args),
+    complete: subcommandCompleter([
+      "sessions",
+      "kick",
+      "ban",
+      "unban",
+      "grant",
+      "revoke",
+      "usage",
+      "audit",
+      "prices",
+    ]),
+  },
+  {
+    name: "/help",
+    args: "[command]",
+    summary: "Show all commands, or the details of one",
+    maxArgs: 1,
+    run: (session, args) => {
+      if (args.length === 0) {
+        session.writeCommandOutput(generateHelpMessage(COMMANDS));
+        return;
+      }
+      const command = findCommand(args[0]);
+      session.writeCommandOutput(
+        command
+          ? commandHelp(command)
+          : `Unknown command ${args[0]}. Use /help to list them.`
+      );
+    },
+    complete: (_, args) =>
+      args.length === 0 ? COMMANDS.map((command) => command.name) : [],
+  },
+];
+
+// Case doesn't matter in command names, and the slash is optional
+export function findCommand(name: string): Command | undefined {
+  const normalized = name.toLowerCase().replace(/^\/?/, "/");
+  return COMMANDS.find((command) => command.name === normalized);
+}
+
+export function commandSynopsis(command: Command): string {
+  return command.args ? `${command.name} ${command.args}` : command.name;
+}
+
+function commandHelp(command: Command): string {
+  let help = `Usage: ${commandSynopsis(command)}\n\n${command.summary}.`;
+  if (command.usage) {
+    help += `\n\n${command.usage}`;
+  }
+  return help;
+}
+
+// Run a line starting with "/" as a command. Returns false when it isn't
+// one, so it can be sent as a message instead.
+export async function runCommand(
+  session: ClientSession,
+  line: string
+): Promise<boolean> {
+  const trimmed = line.trim();
+  const [name, ...args] = splitArguments(trimmed);
+  const command = findCommand(name);
+  if (!command || !name.startsWith("/")) {
+    return false;
+  }
+  console.log(`Command received: ${command.name}`);
+
+  if (
+    (command.minArgs !== undefined && args.length < command.minArgs) ||
+    (command.maxArgs !== undefined && args.length > command.maxArgs)
+  ) {
+    session.writeCommandOutput(
+      `Usage: ${commandSynopsis(command)}` +
+        (command.usage ? `\n${command.usage}` : "")
+    );
+    return true;
+  }
+
+  await command.run(session, args, trimmed.replace(/^\S+\s*/, ""));
+  return true;
+}
+
+// Tab completion for the text before the cursor: command names, then
+// whatever the command completes its arguments with
+export async function completeCommand(
+  session: ClientSession,
+  text: string
+): Promise<string[]> {
+  if (!text.startsWith("/")) {
+    return [];
+  }
+  const words = text.split(/\s+/);
+  const partial = words[words.length - 1];
+
+  let candidates: string[];
+  if (words.length === 1) {
+    candidates = COMMANDS.map((command) => command.name);
+  } else {
+    const command = findCommand(words[0]);
+    if (!command?.complete) {
+      return [];
+    }
+    candidates = await command.complete(session, words.slice(1, -1), partial);
+  }
+
+  const prefix = partial.toLowerCase();
+  return [...new Set(candidates)]
+    .filter((candidate) => candidate.toLowerCase().startsWith(prefix))
+    .sort();
+}
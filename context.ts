@@ -0,0 +1,360 @@
+import { sql } from "./database";
+import { ClientSession, ContextMode, Message } from "./types";
+import {
+  ChatMessage,
+  findModel,
+  getProviderForModel,
+  ModelInfo,
+  Usage,
+} from "./providers";
+import {
+  calculateCost,
+  countTokens,
+  estimateRequestCost,
+  pricePerToken,
+} from "./pricing";
+import { holdCredits, releaseHold, settleHold } from "./credits";
+import { promptMessages } from "./characters";
+
+const CONTEXT_MODES: ContextMode[] = ["drop", "summarize"];
+
+// Used when the catalog doesn't know a model's context window
+const DEFAULT_CONTEXT_LENGTH = 8192;
+
+// Most of the window a reply may take, the rest is for the prompt
+const MAX_COMPLETION_SHARE = 0.25;
+
+// Older turns are taken out when the prompt passes the first share of
+// what the window has for it, until it is under the second, so it
+// doesn't happen again on the next turn
+const COMPACT_AT = 0.9;
+const COMPACT_TO = 0.6;
+
+const SUMMARY_MAX_TOKENS = 600;
+
+const SUMMARY_PROMPT =
+  "Summarize the conversation you are given, to be used as context when it continues. " +
+  "Keep names, facts, decisions, code identifiers, open questions and anything the user asked to remember. " +
+  "Merge it with the summary so far if there is one. Write only the summary, as concisely as possible.";
+
+function isLoggedIn(session: ClientSession): boolean {
+  return !!session.username && session.username !== "guest";
+}
+
+// Tokens the window has for the prompt, after room for the reply
+export function promptBudget(model: ModelInfo | undefined): number {
+  const window = model?.context_length || DEFAULT_CONTEXT_LENGTH;
+  const reply = Math.min(
+    model?.max_completion_tokens || Infinity,
+    window * MAX_COMPLETION_SHARE
+  );
+  return Math.floor(window - reply);
+}
+
+function toChatMessages(messages: Message[]): ChatMessage[] {
+  return messages.map((msg) => ({ role: msg.role, content: msg.content }));
+}
+
+function summaryMessages(summary: string | null): ChatMessage[] {
+  return summary
+    ? [
+        {
+          role: "system",
+          content: `Summary of the earlier conversation:\n${summary}`,
+        },
+      ]
+    : [];
+}
+
+// What is sent for the next turn: the system prompt, the summary of the
+// turns taken out, and the turns since
+export function contextMessages(
+  session: ClientSession,
+  userMessage: string,
+  start: number = session.contextStart
+): ChatMessage[] {
+  return [
+    ...promptMessages(session),
+    ...summaryMessages(session.contextSummary),
+    ...toChatMessages(session.conversation.slice(start)),
+    { role: "user", content: userMessage },
+  ];
+}
+
+export function resetContext(session: ClientSession) {
+  session.contextStart = 0;
+  session.contextSummary = null;
+}
+
+// Make room for userMessage in the model's window, by dropping or
+// summarizing the oldest turns as the session's mode says. Returns false
+// when the message doesn't fit even on its own.
+export async function fitContext(
+  session: ClientSession,
+  model: ModelInfo,
+  userMessage: string
+): Promise<boolean> {
+  // /retry may have taken out turns since the last request
+  session.contextStart = Math.min(
+    session.contextStart,
+    session.conversation.length
+  );
+  const budget = promptBudget(model);
+  const size = (start: number) =>
+    countTokens(model.id, contextMessages(session, userMessage, start));
+  if (size(session.contextStart) <= budget * COMPACT_AT) {
+    return true;
+  }
+
+  if (size(session.conversation.length) > budget) {
+    session.writeCommandOutput(
+      `This message is too long for ${model.id}'s context window of ${(
+        model.context_length || DEFAULT_CONTEXT_LENGTH
+      ).toLocaleString(
+        "en-US"
+      )} tokens. Shorten it, or use /model to pick a model with a larger one.`
+    );
+    return false;
+  }
+
+  // The summary will take about this much of what is freed
+  const target =
+    budget * COMPACT_TO -
+    (session.contextMode === "summarize" ? SUMMARY_MAX_TOKENS : 0);
+  let end = session.contextStart;
+  while (end < session.conversation.length && size(end) > target) {
+    end++;
+    // Whole exchanges go, so the turns left start with the user's
+    while (
+      end < session.conversation.length &&
+      session.conversation[end].role !== "user"
+    ) {
+      end++;
+    }
+  }
+
+  const turns = session.conversation.slice(session.contextStart, end);
+  let summarized = false;
+  if (session.contextMode === "summarize" && turns.length > 0) {
+    const summary = await summarizeTurns(session, model, turns).catch(
+      (error) => {
+        console.error(`[${session.id}] Error summarizing:`, error);
+        return null;
+      }
+    );
+    if (summary) {
+      session.contextSummary = summary;
+      summarized = true;
+    }
+  }
+  session.contextStart = end;
+
+  if (turns.length > 0) {
+    session.writeToStream(
+      `\x1b[2m${turns.length} earlier message${turns.length === 1 ? "" : "s"} ${
+        summarized ? "summarized" : "dropped"
+      } to fit ${model.id}'s context window. See /context.\x1b[0m\n`,
+      false
+    );
+  }
+
+  return true;
+}
+
+// Fold turns into the running summary with the session's model, charged
+// like any other request. Returns null when it can't be done, and the
+// turns are then dropped instead.
+async function summarizeTurns(
+  session: ClientSession,
+  model: ModelInfo,
+  turns: Message[]
+): Promise<string | null> {
+  const budget = promptBudget(model);
+  const request = (from: number): ChatMessage[] => {
+    const transcript = turns
+      .slice(from)
+      .map(
+        (msg) => `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content}`
+      )
+      .join("\n\n");
+    const summarySoFar = session.contextSummary
+      ? `Summary so far:\n${session.contextSummary}\n\n`
+      : "";
+    return [
+      { role: "system", content: SUMMARY_PROMPT },
+      {
+        role: "user",
+        content: `${summarySoFar}Conversation to add:\n${transcript}`,
+      },
+    ];
+  };
+
+  // Turns too long to summarize in one request are left out, oldest first
+  let from = 0;
+  while (
+    from < turns.length - 1 &&
+    countTokens(model.id, request(from)) > budget
+  ) {
+    from++;
+  }
+  const messages = request(from);
+
+  const estimate = estimateRequestCost(model, messages, session.credits);
+  if (!estimate) {
+    return null;
+  }
+  const maxTokens = Math.min(estimate.maxTokens, SUMMARY_MAX_TOKENS);
+  const hold = await holdCredits(
+    session,
+    estimate.promptCost + maxTokens * pricePerToken(model).completion
+  );
+  if (!hold) {
+    return null;
+  }
+
+  try {
+    console.log(`[${session.id}] Summarizing ${turns.length} messages`);
+    let summary = "";
+    let usage: Usage | null = null;
+    for await (const chunk of getProviderForModel(model.id).streamChat({
+      model: model.id,
+      messages,
+      temperature: 0,
+      maxTokens,
+    })) {
+      if (chunk.type === "text") {
+        summary += chunk.content;
+      } else if (chunk.type === "usage") {
+        usage = chunk.usage;
+      }
+    }
+
+    if (usage) {
+      await settleHold(session, hold, calculateCost(model, usage), usage);
+    } else {
+      await releaseHold(session, hold);
+      console.error(`[${session.id}] Usage data not received from the API`);
+    }
+    return summary.trim() || null;
+  } catch (error) {
+    console.error(`[${session.id}] Error summarizing the conversation:`, error);
+    await releaseHold(session, hold).catch((releaseError) =>
+      console.error(`[${session.id}] Error releasing credits:`, releaseError)
+    );
+    return null;
+  }
+}
+
+// The account's choice between dropping and summarizing old turns
+export async function loadContextMode(session: ClientSession) {
+  if (!isLoggedIn(session)) {
+    return;
+  }
+  try {
+    const [account] = await sql<{ context_mode: ContextMode }[]>`
+      SELECT context_mode FROM accounts WHERE id = ${session.userId}
+    `;
+    if (account) {
+      session.contextMode = account.context_mode;
+    }
+  } catch (error) {
+    console.error("Failed to load context mode:", error);
+  }
+}
+
+async function setContextMode(session: ClientSession, mode: ContextMode) {
+  session.contextMode = mode;
+  if (isLoggedIn(session)) {
+    await sql`
+      UPDATE accounts SET context_mode = ${mode}
+      WHERE id = ${session.userId}
+    `;
+  }
+  session.writeCommandOutput(
+    mode === "summarize"
+      ? "Older turns will be summarized when the conversation outgrows the context window."
+      : "Older turns will be dropped when the conversation outgrows the context window."
+  );
+}
+
+function showContext(session: ClientSession) {
+  const model = findModel(session.model);
+  const budget = promptBudget(model);
+  const window = model?.context_length || DEFAULT_CONTEXT_LENGTH;
+  const start = Math.min(session.contextStart, session.conversation.length);
+  const recent = session.conversation.slice(start);
+
+  const count = (messages: ChatMessage[]) =>
+    countTokens(session.model, messages);
+  const promptTokens = count(promptMessages(session));
+  const summaryTokens = count(summaryMessages(session.contextSummary));
+  const recentTokens = count(toChatMessages(recent));
+  const total = promptTokens + summaryTokens + recentTokens;
+  const used = Math.min(1, total / budget);
+
+  const barWidth = 30;
+  const filled = Math.round(used * barWidth);
+  const tokens = (n: number) => `~${n.toLocaleString("en-US")}`;
+
+  let output = `Context for ${session.model} (${window.toLocaleString(
+    "en-US"
+  )} token window${model?.context_length ? "" : ", assumed"}):\n`;
+  output += `  System prompt and character  ${tokens(promptTokens)}\n`;
+  output += `  Summary of earlier turns     ${tokens(summaryTokens)}\n`;
+  output += `  Recent messages (${recent.length})`.padEnd(31);
+  output += `${tokens(recentTokens)}\n`;
+  output += `  [${"#".repeat(filled)}${"-".repeat(
+    barWidth - filled
+  )}] ${Math.round(used * 100)}% of ${budget.toLocaleString(
+    "en-US"
+  )} tokens for the prompt\n\n`;
+
+  output +=
+    start > 0
+      ? `${start} earlier message${
+          start === 1 ? " was" : "s were"
+        } taken out of the context.`
+      : "Nothing has been taken out of the context yet.";
+  output += ` Past ${Math.round(COMPACT_AT * 100)}% the oldest turns are ${
+    session.contextMode === "summarize" ? "summarized" : "dropped"
+  }. Change it with /context mode drop|summarize.`;
+  if (session.contextSummary) {
+    output += `\n\nSummary:\n${session.contextSummary}`;
+  }
+  session.writeCommandOutput(output);
+}
+
+export const CONTEXT_USAGE =
+  "  /context                          - Show how much of the context window is used\n" +
+  "  /context mode [drop|summarize]    - Show or change what happens to older turns";
+
+export async function handleContextCommand(
+  session: ClientSession,
+  args: string[]
+) {
+  const [subcommand, mode] = args.map((arg) => arg.toLowerCase());
+  try {
+    if (subcommand === undefined) {
+      showContext(session);
+    } else if (subcommand === "mode" && mode === undefined) {
+      session.writeCommandOutput(
+        `Older turns are ${
+          session.contextMode === "summarize" ? "summarized" : "dropped"
+        } when the conversation outgrows the context window.`
+      );
+    } else if (
+      subcommand === "mode" &&
+      CONTEXT_MODES.includes(mode as ContextMode) &&
+      args.length === 2
+    ) {
+      await setContextMode(session, mode as ContextMode);
+    } else {
+      session.writeCommandOutput("Usage:\n" + CONTEXT_USAGE);
+    }
+  } catch (error) {
+    console.error("Failed to run context command:", error);
+    session.writeCommandOutput(
+      `Context command failed. ${(error as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,266 @@
+import { v4 as uuidv4 } from "uuid";
+import { jsonb, sql } from "./database";
+import { ClientSession, ConversationTree, Message } from "./types";
+import { resetContext } from "./context";
+import { emptyTree, recordBranches } from "./branches";
+
+const LIST_LIMIT = 20;
+const TITLE_MAX_LENGTH = 60;
+
+export interface SavedConversation {
+  id: string;
+  title: string;
+  model: string;
+  system_prompt: string;
+  messages: Message[];
+  branches: ConversationTree | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+function isLoggedIn(session: ClientSession): boolean {
+  return !!session.username && session.username !== "guest";
+}
+
+function shortId(id: string): string {
+  return id.slice(0, 8);
+}
+
+function defaultTitle(messages: Message[]): string {
+  const firstUserMessage = messages.find((msg) => msg.role === "user");
+  const title = (firstUserMessage?.content || "Untitled")
+    .replace(/\s+/g, " ")
+    .trim();
+  return title.length > TITLE_MAX_LENGTH
+    ? title.slice(0, TITLE_MAX_LENGTH - 3) + "..."
+    : title;
+}
+
+// Insert the session's conversation, or update it if it was saved before
+async function persistConversation(session: ClientSession, title?: string) {
+  recordBranches(session);
+
+  if (session.conversationId) {
+    const result = await sql`
+      UPDATE conversations
+      SET messages = ${jsonb(session.conversation)},
+          branches = ${jsonb(session.conversationTree)},
+          model = ${session.model},
+          system_prompt = ${session.systemPrompt},
+          title = COALESCE(${title ?? null}, title),
+          updated_at = NOW()
+      WHERE id = ${session.conversationId} AND account_id = ${session.userId}
+    `;
+    if (result.count > 0) {
+      return;
+    }
+    // The conversation was deleted elsewhere, save it as a new one
+  }
+
+  const id = uuidv4();
+  await sql`
+    INSERT INTO conversations (id, account_id, title, model, system_prompt, messages, branches)
+    VALUES (${id}, ${session.userId}, ${
+    title || defaultTitle(session.conversation)
+  }, ${session.model}, ${
+    session.systemPrompt
+  }, ${jsonb(session.conversation)}, ${jsonb(session.conversationTree)})
+  `;
+  session.conversationId = id;
+}
+
+// Called after every completed turn so logged-in users never lose a thread
+export async function autosaveConversation(session: ClientSession) {
+  if (!isLoggedIn(session) || session.conversation.length === 0) {
+    return;
+  }
+
+  try {
+    await persistConversation(session);
+  } catch (error) {
+    console.error(`[${session.id}] Failed to autosave conversation:`, error);
+  }
+}
+
+export async function saveConversation(session: ClientSession, title: string) {
+  if (!isLoggedIn(session)) {
+    session.writeCommandOutput(
+      "You need to be logged in to save conversations. Please use /register or /login first."
+    );
+    return;
+  }
+
+  if (session.conversation.length === 0) {
+    session.writeCommandOutput("Nothing to save yet.");
+    return;
+  }
+
+  try {
+    await persistConversation(
+      session,
+      title ? title.slice(0, TITLE_MAX_LENGTH) : undefined
+    );
+    session.writeCommandOutput(
+      `Conversation saved (${shortId(session.conversationId!)}).`
+    );
+  } catch (error) {
+    console.error("Failed to save conversation:", error);
+    session.writeCommandOutput(
+      `Failed to save conversation. ${(error as Error).message}`
+    );
+  }
+}
+
+export async function listConversations(session: ClientSession) {
+  if (!isLoggedIn(session)) {
+    session.writeCommandOutput(
+      "Conversations are only saved for logged-in users. Please use /register or /login first."
+    );
+    return;
+  }
+
+  try {
+    const conversations = await sql`
+      SELECT id, title, model, jsonb_array_length(messages) AS message_count, updated_at
+      FROM conversations
+      WHERE account_id = ${session.userId}
+      ORDER BY updated_at DESC
+      LIMIT ${LIST_LIMIT}
+    `;
+    if (conversations.length === 0) {
+      session.writeCommandOutput("You don't have any saved conversations yet.");
+      return;
+    }
+
+    let conversationList = "Your conversations:\n";
+    conversations.forEach((conversation) => {
+      const current =
+        conversation.id === session.conversationId
+          ? " \x1b[32m(current)\x1b[0m"
+          : "";
+      const updated = new Date(conversation.updated_at)
+        .toISOString()
+        .slice(0, 16)
+        .replace("T", " ");
+      conversationList += `\x1b[1m${shortId(conversation.id)}\x1b[0m  ${
+        conversation.title
+      }${current}\n          ${conversation.message_count} messages, ${
+        conversation.model
+      }, ${updated}\n`;
+    });
+    conversationList += "\nUse /open <id> to resume a conversation.";
+    session.writeCommandOutput(conversationList);
+  } catch (error) {
+    console.error("Failed to list conversations:", error);
+    session.writeCommandOutput(
+      `Failed to list conversations. ${(error as Error).message}`
+    );
+  }
+}
+
+// Resolve a (possibly shortened) id to one of the user's conversations
+async function findConversation(
+  session: ClientSession,
+  idPrefix: string
+): Promise<SavedConversation | null | "ambiguous"> {
+  if (!/^[0-9a-f-]+$/i.test(idPrefix)) {
+    return null;
+  }
+
+  const matches = await sql<SavedConversation[]>`
+    SELECT id, title, model, system_prompt, messages, branches, created_at, updated_at
+    FROM conversations
+    WHERE account_id = ${session.userId}
+      AND id::text LIKE ${idPrefix.toLowerCase() + "%"}
+    LIMIT 2
+  `;
+  if (matches.length > 1) {
+    return "ambiguous";
+  }
+  return matches[0] || null;
+}
+
+export async function openConversation(
+  session: ClientSession,
+  idPrefix: string
+) {
+  if (!isLoggedIn(session)) {
+    session.writeCommandOutput(
+      "You need to be logged in to open conversations. Please use /register or /login first."
+    );
+    return;
+  }
+
+  try {
+    const conversation = await findConversation(session, idPrefix);
+    if (conversation === "ambiguous") {
+      session.writeCommandOutput(
+        `More than one conversation matches "${idPrefix}". Use a longer id.`
+      );
+      return;
+    }
+    if (!conversation) {
+      session.writeCommandOutput(`Conversation "${idPrefix}" not found.`);
+      return;
+    }
+
+    session.conversation = conversation.messages;
+    session.conversationId = conversation.id;
+    // Conversations saved before branching was added only have messages
+    session.conversationTree = conversation.branches ?? emptyTree();
+    recordBranches(session);
+    resetContext(session);
+    session.systemPrompt = conversation.system_prompt;
+    session.model = conversation.model;
+
+    session.writeCommandOutput(
+      `Opened "${conversation.title}" (${conversation.messages.length} messages, model: ${conversation.model}).\n` +
+        "Use /history to review it."
+    );
+  } catch (error) {
+    console.error("Failed to open conversation:", error);
+    session.writeCommandOutput(
+      `Failed to open conversation. ${(error as Error).message}`
+    );
+  }
+}
+
+export async function deleteConversation(
+  session: ClientSession,
+  idPrefix: string
+) {
+  if (!isLoggedIn(session)) {
+    session.writeCommandOutput(
+      "You need to be logged in to delete conversations. Please use /register or /login first."
+    );
+    return;
+  }
+
+  try {
+    const conversation = await findConversation(session, idPrefix);
+    if (conversation === "ambiguous") {
+      session.writeCommandOutput(
+        `More than one conversation matches "${idPrefix}". Use a longer id.`
+      );
+      return;
+    }
+    if (!conversation) {
+      session.writeCommandOutput(`Conversation "${idPrefix}" not found.`);
+      return;
+    }
+
+    await sql`
+      DELETE FROM conversations
+      WHERE id = ${conversation.id} AND account_id = ${session.userId}
+    `;
+    if (session.conversationId === conversation.id) {
+      session.conversationId = null;
+    }
+    session.writeCommandOutput(`Deleted "${conversation.title}".`);
+  } catch (error) {
+    console.error("Failed to delete conversation:", error);
+    session.writeCommandOutput(
+      `Failed to delete conversation. ${(error as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,400 @@
+import { v4 as uuidv4 } from "uuid";
+import postgres from "postgres";
+import { sql } from "./database";
+import { ClientSession } from "./types";
+import { Usage } from "./providers";
+import { PROFIT_RATE } from "./pricing";
+import { recordCharge } from "./metrics";
+import {
+  adjustGuestCredits,
+  getGuestBalance,
+  guestQuotaKeys,
+  reserveGuestCredits,
+} from "./guestQuotas";
+import { fingerprintKey, parsePublicKeyLine } from "./sshKeys";
+
+const USAGE_LIMIT = 20;
+
+export type TransactionKind =
+  | "usage"
+  | "signup_bonus"
+  | "grant"
+  | "revoke"
+  | "refund";
+
+export interface CreditTransaction {
+  id: string;
+  kind: TransactionKind;
+  amount: number;
+  balance_after: number;
+  model: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  provider_cost: number | null;
+  session_id: string | null;
+  description: string | null;
+  created_at: Date;
+}
+
+export interface TransactionDetails {
+  kind: TransactionKind;
+  sessionId?: string;
+  model?: string;
+  usage?: Usage;
+  // What the provider charged us, before margin
+  providerCost?: number;
+  description?: string;
+}
+
+// Whoever pays for a request: an account, or a guest through their quotas
+export type Payer = Pick<
+  ClientSession,
+  | "id"
+  | "model"
+  | "userId"
+  | "username"
+  | "credits"
+  | "clientIP"
+  | "clientPublicKey"
+  | "spent"
+>;
+
+// Credits held for a running request, in the database for accounts
+export interface CreditHold {
+  reservationId: string | null;
+  amount: number;
+}
+
+// Apply a signed change to an account's balance and record it in the
+// ledger. Credits held by a reservation being settled are returned in the
+// same update. Returns the new balance.
+export async function recordTransaction(
+  tx: postgres.TransactionSql,
+  accountId: string,
+  amount: number,
+  details: TransactionDetails,
+  released: number = 0
+): Promise<number> {
+  const [account] = await tx`
+    UPDATE accounts
+    SET credits = credits + ${released} + ${amount}
+    WHERE id = ${accountId}
+    RETURNING credits
+  `;
+  if (!account) {
+    throw new Error(`Account ${accountId} not found`);
+  }
+  const balance = account.credits;
+
+  await tx`
+    INSERT INTO credit_transactions (
+      id, account_id, kind, amount, balance_after, model,
+      prompt_tokens, completion_tokens, provider_cost, session_id, description
+    )
+    VALUES (
+      ${uuidv4()}, ${accountId}, ${details.kind}, ${amount}, ${balance},
+      ${details.model ?? null}, ${details.usage?.prompt_tokens ?? null},
+      ${details.usage?.completion_tokens ?? null},
+      ${details.providerCost ?? null}, ${details.sessionId ?? null},
+      ${details.description ?? null}
+    )
+  `;
+
+  return Number(balance);
+}
+
+// Holds and charges only ever take credits, a negative amount would add
+// them to the balance
+function checkAmount(amount: number) {
+  if (!(amount >= 0)) {
+    throw new Error(`Invalid credit amount ${amount}`);
+  }
+}
+
+// Hold credits for a request before it runs, so concurrent sessions can't
+// spend them too. Returns null when the balance doesn't cover the amount.
+export async function reserveCredits(
+  accountId: string,
+  amount: number,
+  details: { sessionId: string; model: string }
+): Promise<string | null> {
+  checkAmount(amount);
+  return sql.begin(async (tx) => {
+    const [account] = await tx`
+      UPDATE accounts
+      SET credits = credits - ${amount}
+      WHERE id = ${accountId} AND credits >= ${amount}
+      RETURNING credits
+    `;
+    if (!account) {
+      return null;
+    }
+
+    const reservationId = uuidv4();
+    await tx`
+      INSERT INTO credit_reservations (id, account_id, amount, model, session_id)
+      VALUES (${reservationId}, ${accountId}, ${amount}, ${details.model}, ${details.sessionId})
+    `;
+    return reservationId;
+  });
+}
+
+// Return the held credits and debit the real cost in their place
+export async function settleReservation(
+  reservationId: string,
+  cost: number,
+  details: TransactionDetails
+): Promise<number> {
+  checkAmount(cost);
+  return sql.begin(async (tx) => {
+    const [reservation] = await tx`
+      UPDATE credit_reservations
+      SET settled_at = NOW(), settled_amount = ${cost}
+      WHERE id = ${reservationId} AND settled_at IS NULL
+      RETURNING account_id, amount
+    `;
+    if (!reservation) {
+      throw new Error(`Reservation ${reservationId} is already settled`);
+    }
+
+    return recordTransaction(
+      tx,
+      reservation.account_id,
+      -cost,
+      details,
+      Number(reservation.amount)
+    );
+  });
+}
+
+// Give back held credits for a request that never completed
+export async function releaseReservation(
+  reservationId: string
+): Promise<number | null> {
+  return sql.begin(async (tx) => {
+    const [reservation] = await tx`
+      UPDATE credit_reservations
+      SET settled_at = NOW(), settled_amount = 0
+      WHERE id = ${reservationId} AND settled_at IS NULL
+      RETURNING account_id, amount
+    `;
+    if (!reservation) {
+      return null;
+    }
+
+    const [account] = await tx`
+      UPDATE accounts
+      SET credits = credits + ${reservation.amount}
+      WHERE id = ${reservation.account_id}
+      RETURNING credits
+    `;
+    return Number(account.credits);
+  });
+}
+
+// When this process started. Reservations from before are left over
+// from a crash or restart, as nothing can still be streaming for them.
+const STARTED_AT = new Date();
+
+// Release the reservations left open by a crash or restart, at startup
+export async function releaseStaleReservations() {
+  try {
+    const stale = await sql`
+      SELECT id FROM credit_reservations
+      WHERE settled_at IS NULL AND created_at < ${STARTED_AT}
+    `;
+    for (const reservation of stale) {
+      await releaseReservation(reservation.id);
+    }
+    if (stale.length > 0) {
+      console.log(`Released ${stale.length} stale credit reservations`);
+    }
+  } catch (error) {
+    console.error("Error releasing stale reservations:", error);
+  }
+}
+
+export async function getAccountBalance(accountId: string): Promise<number> {
+  const [account] = await sql`
+    SELECT credits FROM accounts WHERE id = ${accountId}
+  `;
+  return account ? Number(account.credits) : 0;
+}
+
+function isAccount(payer: Payer): boolean {
+  return !!payer.username && payer.username !== "guest";
+}
+
+function payerQuotaKeys(payer: Payer): string[] {
+  const key = payer.clientPublicKey
+    ? parsePublicKeyLine(payer.clientPublicKey)
+    : null;
+  return guestQuotaKeys(payer.clientIP, key ? fingerprintKey(key.data) : null);
+}
+
+// Hold credits in the account (or the guest quotas) for a request
+export async function holdCredits(
+  payer: Payer,
+  amount: number
+): Promise<CreditHold | null> {
+  if (isAccount(payer)) {
+    const reservationId = await reserveCredits(payer.userId!, amount, {
+      sessionId: payer.id,
+      model: payer.model,
+    });
+    if (!reservationId) {
+      return null;
+    }
+    payer.credits -= amount;
+    return { reservationId, amount };
+  }
+
+  checkAmount(amount);
+  const balance = await reserveGuestCredits(payerQuotaKeys(payer), amount);
+  if (balance === null) {
+    return null;
+  }
+  payer.credits = balance;
+  return { reservationId: null, amount };
+}
+
+// Charge the real cost of a request against its hold. Never more than the
+// hold, which the balance was checked to cover: an estimate that fell
+// short is on us, not a negative balance.
+export async function settleHold(
+  payer: Payer,
+  hold: CreditHold,
+  cost: number,
+  usage: Usage
+): Promise<void> {
+  checkAmount(cost);
+  const charged = Math.min(cost, hold.amount);
+  if (charged < cost) {
+    console.warn(
+      `[${payer.id}] ${payer.model} cost $${cost.toFixed(
+        6
+      )}, more than the $${hold.amount.toFixed(6)} held`
+    );
+  }
+  payer.spent += charged;
+  recordCharge(payer.model, charged);
+  if (hold.reservationId) {
+    // The database balance is authoritative, other sessions may share it
+    payer.credits = await settleReservation(hold.reservationId, charged, {
+      kind: "usage",
+      sessionId: payer.id,
+      model: payer.model,
+      usage,
+      providerCost: cost / PROFIT_RATE,
+      description:
+        charged < cost
+          ? `Capped at the hold, cost $${cost.toFixed(6)}`
+          : undefined,
+    });
+  } else {
+    payer.credits = await adjustGuestCredits(
+      payerQuotaKeys(payer),
+      hold.amount - charged
+    );
+  }
+}
+
+// Give back a hold for a request that didn't complete
+export async function releaseHold(
+  payer: Payer,
+  hold: CreditHold
+): Promise<void> {
+  if (hold.reservationId) {
+    payer.credits =
+      (await releaseReservation(hold.reservationId)) ?? payer.credits;
+  } else {
+    payer.credits = await adjustGuestCredits(
+      payerQuotaKeys(payer),
+      hold.amount
+    );
+  }
+}
+
+export async function refreshBalance(payer: Payer): Promise<void> {
+  if (isAccount(payer)) {
+    payer.credits = await getAccountBalance(payer.userId!);
+  } else {
+    payer.credits = await getGuestBalance(payerQuotaKeys(payer));
+  }
+}
+
+export async function getRecentTransactions(
+  accountId: string,
+  limit: number = USAGE_LIMIT
+): Promise<CreditTransaction[]> {
+  return sql<CreditTransaction[]>`
+    SELECT id, kind, amount, balance_after, model, prompt_tokens,
+      completion_tokens, provider_cost, session_id, description, created_at
+    FROM credit_transactions
+    WHERE account_id = ${accountId}
+    ORDER BY created_at DESC
+    LIMIT ${limit}
+  `;
+}
+
+// An account's recent transactions and its spending over the last 30
+// days, or null if it has none
+export async function usageReport(accountId: string): Promise<string | null> {
+  const transactions = await getRecentTransactions(accountId);
+  if (transactions.length === 0) {
+    return null;
+  }
+
+  const [totals] = await sql`
+    SELECT COALESCE(-SUM(amount), 0) AS spent, COUNT(*)::int AS requests
+    FROM credit_transactions
+    WHERE account_id = ${accountId}
+      AND kind = 'usage'
+      AND created_at > NOW() - INTERVAL '30 days'
+  `;
+
+  let usageList = "Recent transactions:\n";
+  usageList += "Date              Amount      Balance    Details\n";
+  transactions.forEach((transaction) => {
+    const date = new Date(transaction.created_at)
+      .toISOString()
+      .slice(0, 16)
+      .replace("T", " ");
+    const amount = Number(transaction.amount);
+    const formattedAmount =
+      amount < 0
+        ? `\x1b[31m${amount.toFixed(6)}\x1b[0m`
+        : `\x1b[32m+${amount.toFixed(6)}\x1b[0m`;
+    const balance = Number(transaction.balance_after).toFixed(4);
+    const details =
+      transaction.kind === "usage"
+        ? `${transaction.model} (${transaction.prompt_tokens}+${transaction.completion_tokens} tokens)`
+        : transaction.description || transaction.kind;
+    usageList += `${date}  ${formattedAmount}  ${balance}    ${details}\n`;
+  });
+  usageList += `\nLast 30 days: $${Number(totals.spent).toFixed(4)} across ${
+    totals.requests
+  } requests.`;
+  return usageList;
+}
+
+export async function showUsage(session: ClientSession) {
+  if (!session.username || session.username === "guest") {
+    session.writeCommandOutput(
+      `Usage history is only kept for accounts. Your guest balance is $${session.credits.toFixed(
+        4
+      )}.`
+    );
+    return;
+  }
+
+  try {
+    const report = await usageReport(session.userId!);
+    session.writeCommandOutput(report ?? "No transactions yet.");
+  } catch (error) {
+    console.error("Failed to load usage:", error);
+    session.writeCommandOutput(
+      `Failed to load usage. ${(error as Error).message}`
+    );
+  }
+}
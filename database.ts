@@ -16,4 +16,10 @@ export async function testDatabaseConnection() {
   }
 }
 
+// postgres.js only types index-signature objects as JSON, which our
+// interfaces don't declare. Serialized once, by postgres.js itself.
+export function jsonb(value: unknown) {
+  return sql.json(value as postgres.JSONValue);
+}
+
 export { sql };
@@ -0,0 +1,389 @@
+import SSH2 from "ssh2";
+import { AutoLoginInfo } from "./types";
+import {
+  ChatMessage,
+  DEFAULT_MODEL,
+  findModel,
+  getProviderForModel,
+  Usage,
+} from "./providers";
+import {
+  calculateCost,
+  CONFIRM_COST_THRESHOLD,
+  estimateRequestCost,
+  hasFixedPrice,
+} from "./pricing";
+import { checkPrompt } from "./rateLimits";
+import { unknownModelMessage, variablePriceMessage } from "./models";
+import {
+  holdCredits,
+  Payer,
+  refreshBalance,
+  releaseHold,
+  settleHold,
+} from "./credits";
+
+// Exit codes, so scripts can tell why a request failed
+export const EXIT_OK = 0;
+export const EXIT_MODEL_ERROR = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_NO_CREDITS = 3;
+export const EXIT_LIMITED = 4;
+export const EXIT_NEEDS_CONFIRMATION = 5;
+
+const EXEC_SYSTEM_PROMPT =
+  "You are a helpful AI assistant accessed through a SSH service called question.sh. Your answer is read in a terminal or by a script, so reply in plain text without Markdown formatting.";
+
+// Piped input larger than this is refused
+const MAX_STDIN_BYTES = 256 * 1024;
+
+// Without a pipe, ssh still forwards the terminal as stdin and nothing
+// arrives until Ctrl+D. If no input shows up this quickly, the user is
+// told what the wait is for.
+const STDIN_HINT_MS = 1000;
+
+const STDIN_HINT =
+  "Reading input to add to the prompt, press Ctrl+D when done. Use ssh -n when there is none.";
+
+const EXEC_HELP = `Usage: ssh question.sh [options] <prompt>
+
+Piped input is appended to the prompt:
+  cat error.log | ssh question.sh "why does this fail"
+Without any, use ssh -n so the prompt doesn't wait for it.
+
+Options:
+  -m, --model <id>     Model to use (default: your selected model)
+  -s, --system <text>  System prompt
+  -y, --yes            Run requests costing more than $${CONFIRM_COST_THRESHOLD}
+  -h, --help           Show this help
+
+Exit codes: ${EXIT_OK} success, ${EXIT_MODEL_ERROR} model error, ${EXIT_USAGE} bad usage, ${EXIT_NO_CREDITS} not enough credits, ${EXIT_LIMITED} rate limited, ${EXIT_NEEDS_CONFIRMATION} needs --yes
+`;
+
+// Who is asking, worked out by the server before the command runs
+export interface ExecContext {
+  sessionId: string;
+  account: AutoLoginInfo;
+  clientIP: string;
+  clientPublicKey: string | null;
+  // The client asked for a pty, so stdin is a terminal rather than a pipe
+  hasTerminal: boolean;
+}
+
+interface ExecOutput {
+  out: (text: string) => void;
+  // Report an error on stderr and return the exit code to use
+  fail: (code: number, message: string) => number;
+}
+
+export interface ExecRequest {
+  prompt: string;
+  model: string | null;
+  system: string | null;
+  yes: boolean;
+  help: boolean;
+}
+
+// Read the word starting at `start`, honouring quotes and backslashes
+// the way a shell would. Returns it with the index just past it.
+function readWord(
+  command: string,
+  start: number
+): { word: string; end: number } | null {
+  let i = start;
+  while (i < command.length && /\s/.test(command[i])) i++;
+  if (i >= command.length) return null;
+
+  let word = "";
+  let quote: string | null = null;
+  for (; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === "\\" && quote === '"' && i + 1 < command.length) {
+        word += command[++i];
+      } else {
+        word += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "\\" && i + 1 < command.length) {
+      word += command[++i];
+    } else if (/\s/.test(char)) {
+      break;
+    } else {
+      word += char;
+    }
+  }
+  return { word, end: i };
+}
+
+// Parse the command sent with an exec request: options first, then the
+// prompt. The prompt is kept as sent, since the client's shell has
+// already dealt with its quotes. Returns an error message if the options
+// can't be understood.
+export function parseExecCommand(command: string): ExecRequest | string {
+  const request: ExecRequest = {
+    prompt: "",
+    model: null,
+    system: null,
+    yes: false,
+    help: false,
+  };
+
+  let position = 0;
+  while (true) {
+    const next = readWord(command, position);
+    if (!next || !next.word.startsWith("-")) break;
+    position = next.end;
+    if (next.word === "--") break;
+
+    const [flag, inlineValue] = next.word.split(/=(.*)/s);
+    const takeValue = (): string | null => {
+      if (inlineValue !== undefined) return inlineValue;
+      const value = readWord(command, position);
+      if (!value) return null;
+      position = value.end;
+      return value.word;
+    };
+
+    switch (flag) {
+      case "-m":
+      case "--model":
+        request.model = takeValue();
+        if (request.model === null) return `${flag} needs a value`;
+        break;
+      case "-s":
+      case "--system":
+        request.system = takeValue();
+        if (request.system === null) return `${flag} needs a value`;
+        break;
+      case "-y":
+      case "--yes":
+        request.yes = true;
+        break;
+      case "-h":
+      case "--help":
+        request.help = true;
+        break;
+      default:
+        return `Unknown option ${flag}`;
+    }
+  }
+
+  request.prompt = command.slice(position).trim();
+  return request;
+}
+
+// Read what the client pipes in, until it closes its side of the channel.
+// hint() is called if nothing has arrived after a moment. Fails if the
+// channel goes away without an EOF.
+function readStdin(
+  channel: SSH2.ServerChannel,
+  hint: () => void
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const done = (error?: Error) => {
+      clearTimeout(timer);
+      channel.removeListener("data", onData);
+      channel.removeListener("end", onEnd);
+      channel.removeListener("close", onClose);
+      channel.removeListener("error", done);
+      if (error) {
+        reject(error);
+      } else {
+        resolve(Buffer.concat(chunks).toString("utf-8"));
+      }
+    };
+    const onData = (data: Buffer) => {
+      clearTimeout(timer);
+      size += data.length;
+      if (size > MAX_STDIN_BYTES) {
+        done(new Error(`Input is larger than ${MAX_STDIN_BYTES} bytes`));
+        return;
+      }
+      chunks.push(data);
+    };
+    const onEnd = () => done();
+    const onClose = () =>
+      done(new Error("The channel closed before the input ended"));
+    const timer = setTimeout(hint, STDIN_HINT_MS);
+
+    channel.on("data", onData);
+    channel.on("end", onEnd);
+    channel.on("close", onClose);
+    channel.on("error", done);
+  });
+}
+
+// Answer a single prompt sent as an ssh command, e.g.
+// `ssh question.sh "explain this"`, and exit with a code telling how it
+// went. Output is plain text.
+export async function handleExec(
+  channel: SSH2.ServerChannel,
+  command: string,
+  context: ExecContext
+) {
+  const { sessionId, hasTerminal } = context;
+  // A terminal on the other end needs carriage returns
+  const newlines = (text: string) =>
+    hasTerminal ? text.replace(/\n/g, "\r\n") : text;
+  const output: ExecOutput = {
+    out: (text) => channel.write(newlines(text)),
+    fail: (code, message) => {
+      channel.stderr.write(newlines(`${message}\n`));
+      return code;
+    },
+  };
+
+  let code: number;
+  try {
+    code = await runExec(channel, command, context, output);
+  } catch (error) {
+    console.error(`[${sessionId}] Error in exec request:`, error);
+    code = output.fail(EXIT_MODEL_ERROR, `Error: ${(error as Error).message}`);
+  }
+
+  console.log(`[${sessionId}] Exec request finished with code ${code}`);
+  channel.exit(code);
+  channel.end();
+}
+
+async function runExec(
+  channel: SSH2.ServerChannel,
+  command: string,
+  context: ExecContext,
+  { out, fail }: ExecOutput
+): Promise<number> {
+  const { sessionId, account } = context;
+  const request = parseExecCommand(command);
+  if (typeof request === "string") {
+    return fail(EXIT_USAGE, `${request}\n\n${EXEC_HELP}`);
+  }
+  if (request.help) {
+    out(EXEC_HELP);
+    return EXIT_OK;
+  }
+
+  let input = "";
+  if (!context.hasTerminal) {
+    try {
+      input = (
+        await readStdin(channel, () => channel.stderr.write(`${STDIN_HINT}\n`))
+      ).trim();
+    } catch (error) {
+      return fail(EXIT_USAGE, (error as Error).message);
+    }
+  }
+
+  const prompt = [request.prompt, input].filter(Boolean).join("\n\n");
+  if (!prompt) {
+    return fail(EXIT_USAGE, EXEC_HELP);
+  }
+
+  const limited = checkPrompt(
+    account.username !== "guest" ? account.userId : null,
+    context.clientIP
+  );
+  if (limited) {
+    return fail(EXIT_LIMITED, limited);
+  }
+
+  const payer: Payer = {
+    id: sessionId,
+    model: request.model ?? (account.selected_model || DEFAULT_MODEL),
+    userId: account.userId,
+    username: account.username,
+    credits: account.credits,
+    clientIP: context.clientIP,
+    clientPublicKey: context.clientPublicKey,
+    spent: 0,
+  };
+
+  const modelInfo = findModel(payer.model);
+  if (!modelInfo) {
+    return fail(EXIT_USAGE, unknownModelMessage(payer.model));
+  }
+  if (!hasFixedPrice(modelInfo)) {
+    return fail(EXIT_USAGE, variablePriceMessage(payer.model));
+  }
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: request.system ?? EXEC_SYSTEM_PROMPT },
+    { role: "user", content: prompt },
+  ];
+
+  await refreshBalance(payer);
+  const estimate = estimateRequestCost(modelInfo, messages, payer.credits);
+  if (payer.credits <= 0 || !estimate) {
+    return fail(
+      EXIT_NO_CREDITS,
+      `Your balance of $${payer.credits.toFixed(
+        4
+      )} is not enough for this request on ${payer.model}.`
+    );
+  }
+  if (estimate.worstCaseCost >= CONFIRM_COST_THRESHOLD && !request.yes) {
+    return fail(
+      EXIT_NEEDS_CONFIRMATION,
+      `This request may cost up to $${estimate.worstCaseCost.toFixed(4)}. ` +
+        "Run it again with --yes to go ahead."
+    );
+  }
+
+  const hold = await holdCredits(payer, estimate.worstCaseCost);
+  if (!hold) {
+    return fail(
+      EXIT_NO_CREDITS,
+      "Your balance changed and no longer covers this request."
+    );
+  }
+
+  let usage: Usage | null = null;
+  let response = "";
+  try {
+    console.log(`[${sessionId}] Exec request for model: ${payer.model}`, {
+      maxTokens: estimate.maxTokens,
+      reserved: estimate.worstCaseCost,
+    });
+    const stream = getProviderForModel(payer.model).streamChat({
+      model: payer.model,
+      messages,
+      maxTokens: estimate.maxTokens,
+    });
+
+    for await (const chunk of stream) {
+      if (chunk.type === "text") {
+        response += chunk.content;
+        out(chunk.content);
+      } else if (chunk.type === "usage") {
+        usage = chunk.usage;
+      }
+    }
+  } catch (error) {
+    console.error(`[${sessionId}] Error querying model:`, error);
+    await releaseHold(payer, hold).catch((releaseError) =>
+      console.error(`[${sessionId}] Error releasing credits:`, releaseError)
+    );
+    return fail(
+      EXIT_MODEL_ERROR,
+      `Error from ${payer.model}: ${(error as Error).message}`
+    );
+  }
+
+  if (!response.endsWith("\n")) {
+    out("\n");
+  }
+
+  if (usage) {
+    await settleHold(payer, hold, calculateCost(modelInfo, usage), usage);
+  } else {
+    await releaseHold(payer, hold);
+    console.error(`[${sessionId}] Usage data not received from the API`);
+  }
+  return EXIT_OK;
+}
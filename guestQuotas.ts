@@ -0,0 +1,166 @@
+import cron from "node-cron";
+import { sql } from "./database";
+
+// Credits a guest gets per refill period (in USD)
+export const GUEST_CREDITS = Number(process.env.GUEST_CREDITS ?? 0.1);
+
+// "daily" refills at midnight UTC, "weekly" on Mondays at midnight UTC
+const GUEST_REFILL_PERIOD =
+  process.env.GUEST_REFILL_PERIOD === "weekly" ? "weekly" : "daily";
+
+const REFILL_SCHEDULES = {
+  daily: "0 0 * * *",
+  weekly: "0 0 * * 1",
+};
+
+// Guests that haven't been back for this long are forgotten
+const STALE_QUOTA_DAYS = 90;
+
+// A guest is tracked by IP and, when they offered one, by SSH key
+// fingerprint. Their balance is the lowest of the two so that neither
+// switching networks nor generating new keys resets it.
+export function guestQuotaKeys(
+  clientIP: string,
+  keyFingerprint: string | null
+): string[] {
+  const keys = [`ip:${clientIP}`];
+  if (keyFingerprint) {
+    keys.push(`key:${keyFingerprint}`);
+  }
+  return keys;
+}
+
+// The balance is the lowest of the quotas. Without any, for instance
+// when they were pruned meanwhile, there is nothing to spend.
+function lowestBalance(quotas: { credits: string }[]): number {
+  return quotas.length > 0
+    ? Math.min(...quotas.map((quota) => Number(quota.credits)))
+    : 0;
+}
+
+export async function getGuestBalance(keys: string[]): Promise<number> {
+  for (const key of keys) {
+    await sql`
+      INSERT INTO guest_quotas (quota_key, credits)
+      VALUES (${key}, ${GUEST_CREDITS})
+      ON CONFLICT (quota_key) DO UPDATE SET last_seen_at = NOW()
+    `;
+  }
+
+  const [quota] = await sql`
+    SELECT MIN(credits) AS credits FROM guest_quotas
+    WHERE quota_key = ANY(${keys})
+  `;
+  return Number(quota.credits);
+}
+
+// Take credits from every quota the guest is tracked by. Returns the new
+// balance, or null when it doesn't cover the amount.
+export async function reserveGuestCredits(
+  keys: string[],
+  amount: number
+): Promise<number | null> {
+  return sql.begin(async (tx) => {
+    const quotas = await tx`
+      SELECT credits FROM guest_quotas
+      WHERE quota_key = ANY(${keys})
+      FOR UPDATE
+    `;
+    if (
+      quotas.length === 0 ||
+      Math.min(...quotas.map((quota) => Number(quota.credits))) < amount
+    ) {
+      return null;
+    }
+
+    const updated = await tx<{ credits: string }[]>`
+      UPDATE guest_quotas
+      SET credits = credits - ${amount}, last_seen_at = NOW()
+      WHERE quota_key = ANY(${keys})
+      RETURNING credits
+    `;
+    return lowestBalance(updated);
+  });
+}
+
+// Apply a signed change to every quota the guest is tracked by
+export async function adjustGuestCredits(
+  keys: string[],
+  amount: number
+): Promise<number> {
+  const updated = await sql<{ credits: string }[]>`
+    UPDATE guest_quotas
+    SET credits = credits + ${amount}, last_seen_at = NOW()
+    WHERE quota_key = ANY(${keys})
+    RETURNING credits
+  `;
+  return lowestBalance(updated);
+}
+
+function startOfUTCDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
+
+// The most recent refill time at or before `now`
+function previousRefill(now: Date = new Date()): Date {
+  const refill = startOfUTCDay(now);
+  if (GUEST_REFILL_PERIOD === "weekly") {
+    // getUTCDay() is 0 on Sunday, refills happen on Monday
+    const daysSinceMonday = (refill.getUTCDay() + 6) % 7;
+    refill.setUTCDate(refill.getUTCDate() - daysSinceMonday);
+  }
+  return refill;
+}
+
+export function nextGuestRefill(now: Date = new Date()): Date {
+  const refill = previousRefill(now);
+  refill.setUTCDate(
+    refill.getUTCDate() + (GUEST_REFILL_PERIOD === "weekly" ? 7 : 1)
+  );
+  return refill;
+}
+
+// Top every guest back up to the allowance. Quotas already refilled since
+// the last scheduled time are skipped, so running this again (or at
+// startup, to catch up on refills missed while the server was down) is safe.
+export async function refillGuestQuotas() {
+  try {
+    const refilled = await sql`
+      UPDATE guest_quotas
+      SET credits = GREATEST(credits, ${GUEST_CREDITS}), refilled_at = NOW()
+      WHERE refilled_at < ${previousRefill()}
+    `;
+    const forgotten = await sql`
+      DELETE FROM guest_quotas
+      WHERE last_seen_at < NOW() - ${`${STALE_QUOTA_DAYS} days`}::interval
+    `;
+    console.log(
+      `Guest quotas refilled: ${refilled.count}, forgotten: ${forgotten.count}`
+    );
+  } catch (error) {
+    console.error("Error refilling guest quotas:", error);
+  }
+}
+
+export function scheduleGuestRefills() {
+  cron.schedule(REFILL_SCHEDULES[GUEST_REFILL_PERIOD], refillGuestQuotas, {
+    timezone: "Etc/UTC",
+  });
+  console.log(
+    `Guest quotas refill ${GUEST_REFILL_PERIOD}, next at ${nextGuestRefill().toISOString()}`
+  );
+}
+
+export function describeNextRefill(now: Date = new Date()): string {
+  const next = nextGuestRefill(now);
+  const hours = Math.ceil((next.getTime() - now.getTime()) / 3600000);
+  const when =
+    hours < 24
+      ? `in ${hours} hour${hours === 1 ? "" : "s"}`
+      : `in ${Math.ceil(hours / 24)} days`;
+  const at = next.toISOString().slice(0, 16).replace("T", " ");
+  const allowance = GUEST_CREDITS.toFixed(4);
+  return `Guest credits refill to $${allowance} ${when} (${at} UTC).`;
+}
@@ -0,0 +1,232 @@
+// Line-at-a-time syntax highlighting for code blocks in model output.
+// Strings and comments that span several lines are not tracked.
+
+interface LanguageSyntax {
+  keywords: string[];
+  constants: string[];
+  lineComments: string[];
+  blockComment?: [string, string];
+  // Backtick strings, as in JavaScript
+  templateStrings?: boolean;
+  caseInsensitive?: boolean;
+}
+
+const COLORS = {
+  keyword: "\x1b[35m",
+  constant: "\x1b[33m",
+  string: "\x1b[32m",
+  number: "\x1b[33m",
+  comment: "\x1b[90m",
+  function: "\x1b[34m",
+  reset: "\x1b[39m",
+};
+
+function words(list: string): string[] {
+  return list.trim().split(/\s+/);
+}
+
+const JAVASCRIPT: LanguageSyntax = {
+  keywords: words(`
+    abstract as async await break case catch class const continue
+    debugger declare default delete do else enum export extends
+    finally for from function if implements import in instanceof
+    interface keyof let namespace new of private protected public
+    readonly return static super switch this throw try type typeof var
+    void while with yield
+  `),
+  constants: words("true false null undefined NaN Infinity"),
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"],
+  templateStrings: true,
+};
+
+const PYTHON: LanguageSyntax = {
+  keywords: words(`
+    and as assert async await break case class continue def del elif
+    else except finally for from global if import in is lambda match
+    nonlocal not or pass raise return try while with yield
+  `),
+  constants: words("True False None self"),
+  lineComments: ["#"],
+};
+
+const SHELL: LanguageSyntax = {
+  keywords: words(`
+    case cd do done echo elif else esac exit export fi for function if
+    in local readonly return source then until while
+  `),
+  constants: words("true false"),
+  lineComments: ["#"],
+};
+
+const GO: LanguageSyntax = {
+  keywords: words(`
+    break case chan const continue default defer else fallthrough for
+    func go goto if import interface map package range return select
+    struct switch type var
+  `),
+  constants: words("true false nil iota"),
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"],
+};
+
+const RUST: LanguageSyntax = {
+  keywords: words(`
+    as async await break const continue crate dyn else enum extern fn
+    for if impl in let loop match mod move mut pub ref return self
+    Self static struct super trait type unsafe use where while
+  `),
+  constants: words("true false None Some Ok Err"),
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"],
+};
+
+// C, C++, Java, C# and friends
+const C_LIKE: LanguageSyntax = {
+  keywords: words(`
+    auto bool boolean break byte case catch char class const continue
+    default delete do double else enum extends extern final float for
+    goto if implements import int interface long namespace new
+    override package private protected public return short signed
+    sizeof static string struct switch template this throw try typedef
+    typename union unsigned using var virtual void volatile while
+  `),
+  constants: words("true false null nullptr NULL"),
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"],
+};
+
+const SQL: LanguageSyntax = {
+  keywords: words(`
+    ALL ALTER AND AS ASC BEGIN BY CASE COMMIT CREATE DEFAULT DELETE
+    DESC DISTINCT DROP ELSE END EXISTS FROM GROUP HAVING IF IN INDEX
+    INNER INSERT INTO IS JOIN KEY LEFT LIMIT NOT OFFSET ON OR ORDER
+    OUTER PRIMARY REFERENCES RETURNING RIGHT ROLLBACK SELECT SET TABLE
+    THEN UNION UNIQUE UPDATE VALUES WHEN WHERE WITH
+  `),
+  constants: words("NULL TRUE FALSE"),
+  lineComments: ["--"],
+  blockComment: ["/*", "*/"],
+  caseInsensitive: true,
+};
+
+const RUBY: LanguageSyntax = {
+  keywords: words(`
+    begin class def do else elsif end ensure for if in module require
+    rescue return unless until while yield
+  `),
+  constants: words("true false nil self"),
+  lineComments: ["#"],
+};
+
+const JSON_SYNTAX: LanguageSyntax = {
+  keywords: [],
+  constants: words("true false null"),
+  lineComments: [],
+};
+
+const LANGUAGES: Record<string, LanguageSyntax> = {
+  js: JAVASCRIPT,
+  javascript: JAVASCRIPT,
+  jsx: JAVASCRIPT,
+  ts: JAVASCRIPT,
+  typescript: JAVASCRIPT,
+  tsx: JAVASCRIPT,
+  py: PYTHON,
+  python: PYTHON,
+  sh: SHELL,
+  bash: SHELL,
+  shell: SHELL,
+  zsh: SHELL,
+  go: GO,
+  golang: GO,
+  rs: RUST,
+  rust: RUST,
+  c: C_LIKE,
+  h: C_LIKE,
+  cpp: C_LIKE,
+  "c++": C_LIKE,
+  java: C_LIKE,
+  cs: C_LIKE,
+  csharp: C_LIKE,
+  kotlin: C_LIKE,
+  swift: C_LIKE,
+  sql: SQL,
+  rb: RUBY,
+  ruby: RUBY,
+  json: JSON_SYNTAX,
+};
+
+const tokenPatterns = new Map<LanguageSyntax, RegExp>();
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// One alternation per token kind, in the order they are tried
+function tokenPattern(syntax: LanguageSyntax): RegExp {
+  let pattern = tokenPatterns.get(syntax);
+  if (pattern) {
+    return pattern;
+  }
+
+  const comments = syntax.lineComments.map(
+    (start) => `${escapeRegExp(start)}.*`
+  );
+  if (syntax.blockComment) {
+    const [start, end] = syntax.blockComment.map(escapeRegExp);
+    comments.push(`${start}[\\s\\S]*?(?:${end}|$)`);
+  }
+  const quotes = syntax.templateStrings ? "\"'`" : "\"'";
+  const strings = [...quotes].map(
+    (quote) => `${quote}(?:\\\\.|[^${quote}\\\\])*${quote}?`
+  );
+
+  pattern = new RegExp(
+    [
+      `(${comments.join("|") || "(?!)"})`,
+      `(${strings.join("|")})`,
+      "(\\b(?:0x[0-9a-fA-F]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b)",
+      "([A-Za-z_$][\\w$]*)",
+    ].join("|"),
+    "g"
+  );
+  tokenPatterns.set(syntax, pattern);
+  return pattern;
+}
+
+function wordColor(
+  syntax: LanguageSyntax,
+  word: string,
+  isCall: boolean
+): string | null {
+  const normalized = syntax.caseInsensitive ? word.toUpperCase() : word;
+  if (syntax.keywords.includes(normalized)) return COLORS.keyword;
+  if (syntax.constants.includes(normalized)) return COLORS.constant;
+  if (isCall) return COLORS.function;
+  return null;
+}
+
+// Color one line of code. Unknown languages are returned unchanged.
+export function highlightLine(line: string, language: string): string {
+  const syntax = LANGUAGES[language.toLowerCase()];
+  if (!syntax) {
+    return line;
+  }
+
+  const pattern = tokenPattern(syntax);
+
+  return line.replace(
+    pattern,
+    (token, comment, string, number, word, offset: number) => {
+      const color = comment
+        ? COLORS.comment
+        : string
+        ? COLORS.string
+        : number
+        ? COLORS.number
+        : wordColor(syntax, word, line[offset + word.length] === "(");
+      return color ? `${color}${token}${COLORS.reset}` : token;
+    }
+  );
+}
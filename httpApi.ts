@@ -0,0 +1,140 @@
+import http from "http";
+import { sql } from "./database";
+import { getModelList } from "./providers";
+import { pricePerToken } from "./pricing";
+import { sessions } from "./sessions";
+import { renderMetrics, requestsPerModel } from "./metrics";
+
+// A health check that hangs is as bad as one that fails
+const HEALTH_CHECK_TIMEOUT_MS = 2000;
+
+const TOKENS_PER_MILLION = 1_000_000;
+
+function sendJSON(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+// The URL a request is for, or null when its target can't be parsed.
+// Anyone can send one like that, so it must not throw.
+export function requestURL(req: http.IncomingMessage): URL | null {
+  try {
+    return new URL(req.url ?? "/", "http://localhost");
+  } catch {
+    return null;
+  }
+}
+
+async function checkDatabase(): Promise<string> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error("timed out")),
+      HEALTH_CHECK_TIMEOUT_MS
+    );
+  });
+  try {
+    await Promise.race([sql`SELECT 1`, timeout]);
+    return "ok";
+  } catch (error) {
+    console.error("Health check failed to reach the database:", error);
+    return `error: ${(error as Error).message}`;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// 200 when the database answers and the model list is loaded, 503
+// otherwise, with the state of each check
+async function handleHealthCheck(res: http.ServerResponse) {
+  const database = await checkDatabase();
+  const cachedModels = getModelList().length;
+  const models = cachedModels > 0 ? "ok" : "error: model list is empty";
+  const healthy = database === "ok" && models === "ok";
+
+  sendJSON(res, healthy ? 200 : 503, {
+    status: healthy ? "ok" : "error",
+    checks: { database, models },
+    cachedModels,
+  });
+}
+
+async function handleStats(res: http.ServerResponse) {
+  const [{ count }] = await sql`SELECT COUNT(*)::int AS count FROM accounts`;
+  sendJSON(res, 200, {
+    activeSessions: sessions.size,
+    registeredUsers: count,
+    requestsPerModel: requestsPerModel(),
+    uptimeSeconds: Math.floor(process.uptime()),
+  });
+}
+
+// The catalog with what users are charged, in USD per million tokens
+function handleModels(res: http.ServerResponse) {
+  const models = getModelList().map((model) => {
+    const price = pricePerToken(model);
+    return {
+      id: model.id,
+      name: model.name,
+      provider: model.provider,
+      contextLength: model.context_length,
+      pricing: {
+        prompt: price.prompt * TOKENS_PER_MILLION,
+        completion: price.completion * TOKENS_PER_MILLION,
+      },
+    };
+  });
+  sendJSON(res, 200, { models });
+}
+
+function handleMetrics(res: http.ServerResponse) {
+  res.writeHead(200, {
+    "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+  });
+  res.end(
+    renderMetrics({
+      sessions: sessions.size,
+      cachedModels: getModelList().length,
+    })
+  );
+}
+
+// Answer a request for one of the API routes. Returns false when the path
+// isn't one of them.
+export async function handleApiRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<boolean> {
+  const url = requestURL(req);
+  if (!url) {
+    sendJSON(res, 400, { error: "Bad request" });
+    return true;
+  }
+  const { pathname } = url;
+
+  try {
+    switch (pathname) {
+      case "/healthz":
+        await handleHealthCheck(res);
+        return true;
+      case "/api/stats":
+        await handleStats(res);
+        return true;
+      case "/api/models":
+        handleModels(res);
+        return true;
+      case "/metrics":
+        handleMetrics(res);
+        return true;
+      default:
+        return false;
+    }
+  } catch (error) {
+    console.error(`Failed to answer ${pathname}:`, error);
+    sendJSON(res, 500, { error: "Internal server error" });
+    return true;
+  }
+}
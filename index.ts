@@ -1,25 +1,29 @@
 import { createServer, createHttpServer } from "./server";
 import { testDatabaseConnection } from "./database";
-
-import OpenAI from "openai";
-import { fetchAndCacheModelList } from "./clientSession";
+import { runMigrations } from "./migrations";
+import {
+  loadCatalogSnapshot,
+  refreshModelCatalog,
+  scheduleCatalogRefresh,
+} from "./modelCatalog";
+import { releaseStaleReservations } from "./credits";
+import { refillGuestQuotas, scheduleGuestRefills } from "./guestQuotas";
+import { scheduleRateLimitCleanup } from "./rateLimits";
 
 console.log("Initializing question.sh server...");
 
-const sshServer = createServer();
-const httpServer = createHttpServer();
-
 await testDatabaseConnection();
+await runMigrations();
+await loadCatalogSnapshot();
+await releaseStaleReservations();
+await refillGuestQuotas();
 
-// Initialize OpenAI SDK with OpenRouter configuration
-export const openai = new OpenAI({
-  baseURL: "https://openrouter.ai/api/v1",
-  apiKey: process.env.OPENROUTER_API_KEY,
-  defaultHeaders: {
-    "HTTP-Referer": "Question.sh", // Replace with your actual site URL
-    "X-Title": "Question.sh", // Replace with your app name
-  },
-});
+// Clients only get in once the schema, catalog and credits are ready
+const sshServer = createServer();
+const httpServer = createHttpServer();
+scheduleGuestRefills();
+scheduleRateLimitCleanup();
+scheduleCatalogRefresh();
 
 process.on("SIGINT", () => {
   console.log("\nShutting down servers...");
@@ -28,4 +32,4 @@ process.on("SIGINT", () => {
   process.exit(0);
 });
 
-fetchAndCacheModelList();
+refreshModelCatalog();
@@ -0,0 +1,848 @@
+import { StringDecoder } from "string_decoder";
+import { displayWidth } from "./utils";
+
+export interface LineEditorOptions {
+  prompt: string;
+  // Shown before each further line of a multi-line message
+  continuationPrompt: string;
+  write: (data: string) => void;
+  // Called with each line the user enters
+  onLine: (line: string) => void;
+  // Ctrl+C or Ctrl+D on an empty line
+  onClose: () => void;
+  // Ctrl+C, instead of clearing the line or closing on an empty one
+  onInterrupt?: () => void;
+  // Called with each line added to the history
+  onHistory?: (line: string) => void;
+  // Enter always submits and pasted line breaks become spaces
+  singleLine?: boolean;
+  // Echo "*" in place of each character
+  mask?: boolean;
+  // Terminal width, to follow rows the terminal wraps
+  columns?: () => number;
+  // Tab completion: candidates to replace the last word of the text
+  // before the cursor with
+  complete?: (text: string) => Promise<string[]> | string[];
+  historySize?: number;
+}
+
+export interface Key {
+  name: string;
+  text?: string;
+}
+
+interface SearchState {
+  query: string;
+  // Index of the matching history entry, -1 when nothing matches
+  match: number;
+  originalLine: string;
+  originalCursor: number;
+}
+
+// xterm modifier parameter, minus one, is a bitmask of these
+const MODIFIER_SHIFT = 1;
+const MODIFIER_ALT = 2;
+const MODIFIER_CTRL = 4;
+
+const CSI_KEYS: Record<string, string> = {
+  A: "up",
+  B: "down",
+  C: "right",
+  D: "left",
+  H: "home",
+  F: "end",
+};
+
+const TILDE_KEYS: Record<string, string> = {
+  "1": "home",
+  "7": "home",
+  "4": "end",
+  "8": "end",
+  "3": "delete",
+};
+
+// Keys reported with their code point, used by terminals that tell
+// Shift+Enter from Enter ("CSI 13;2u", or "CSI 27;2;13~" in xterm)
+const CODE_POINT_KEYS: Record<string, string> = {
+  "13": "enter",
+};
+
+// Bracketed paste markers, sent around pasted text once enabled
+export const ENABLE_BRACKETED_PASTE = "\x1b[?2004h";
+export const DISABLE_BRACKETED_PASTE = "\x1b[?2004l";
+const PASTE_START = "\x1b[200~";
+const PASTE_END = "\x1b[201~";
+
+// Typing this on the first line starts a message that only ends at the
+// line closing it, Enter inserts line breaks in between
+const FENCE = '"""';
+
+const CSI_PATTERN = /\x1b\[([0-9;]*)([@-~])/y;
+const SS3_PATTERN = /\x1bO([A-Z])/y;
+// An escape sequence cut off at the end of a chunk
+const PARTIAL_ESCAPE_PATTERN = /\x1b(\[[0-9;]*|O)$/;
+
+const WORD_CHAR_PATTERN = /[\p{L}\p{N}_]/u;
+
+// More completion candidates than this are cut short when listed
+const MAX_LISTED_CANDIDATES = 100;
+
+function commonPrefix(words: string[]): string {
+  let prefix = words[0];
+  for (const word of words.slice(1)) {
+    while (!word.startsWith(prefix)) {
+      prefix = prefix.slice(0, -1);
+    }
+  }
+  return prefix;
+}
+
+function withModifiers(name: string, params: string): string {
+  const modifier = Number(params.split(";")[1] ?? 1) - 1;
+  if (modifier & MODIFIER_CTRL) return `ctrl+${name}`;
+  if (modifier & MODIFIER_ALT) return `meta+${name}`;
+  if (modifier & MODIFIER_SHIFT) return `shift+${name}`;
+  return name;
+}
+
+function csiKeyName(params: string, final: string): string | undefined {
+  const [first, second, third] = params.split(";");
+  if (final === "u") {
+    const name = CODE_POINT_KEYS[first];
+    return name && withModifiers(name, `1;${second ?? 1}`);
+  }
+  if (final === "~" && first === "27") {
+    const name = CODE_POINT_KEYS[third];
+    return name && withModifiers(name, `1;${second ?? 1}`);
+  }
+  if (final === "~") {
+    return TILDE_KEYS[first];
+  }
+  return CSI_KEYS[final] && withModifiers(CSI_KEYS[final], params);
+}
+
+// Pasted text is inserted as is, apart from line endings and tabs, which
+// become "\n" and spaces; other control characters are dropped
+function cleanPastedText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\t/g, "    ")
+    .replace(/[\x00-\x09\x0b-\x1f\x7f]/g, "");
+}
+
+// Length of the longest end of `text` that `marker` starts with, which may
+// be the beginning of a marker split across chunks
+function partialMarkerLength(text: string, marker: string): number {
+  for (let length = marker.length - 1; length > 0; length--) {
+    if (text.endsWith(marker.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+// Split terminal input into keys. Runs of printable characters become a
+// single "text" key so pasted text is inserted in one go.
+export function decodeKeys(input: string): Key[] {
+  const keys: Key[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === "\x1b") {
+      CSI_PATTERN.lastIndex = i;
+      const csi = CSI_PATTERN.exec(input);
+      if (csi) {
+        const [sequence, params, final] = csi;
+        keys.push({ name: csiKeyName(params, final) ?? "unknown" });
+        i += sequence.length;
+        continue;
+      }
+
+      SS3_PATTERN.lastIndex = i;
+      const ss3 = SS3_PATTERN.exec(input);
+      if (ss3) {
+        keys.push({ name: CSI_KEYS[ss3[1]] ?? "unknown" });
+        i += ss3[0].length;
+        continue;
+      }
+
+      // ESC followed by a key is how terminals send Alt+key
+      const next = input[i + 1];
+      if (next === undefined) {
+        keys.push({ name: "escape" });
+        i += 1;
+      } else if (next === "\x7f" || next === "\b") {
+        keys.push({ name: "meta+backspace" });
+        i += 2;
+      } else if (next === "\r" || next === "\n") {
+        keys.push({ name: "meta+enter" });
+        i += 2;
+      } else {
+        keys.push({ name: `meta+${next.toLowerCase()}` });
+        i += 2;
+      }
+      continue;
+    }
+
+    if (char === "\r" || char === "\n") {
+      keys.push({ name: "enter" });
+      i += char === "\r" && input[i + 1] === "\n" ? 2 : 1;
+      continue;
+    }
+
+    if (char === "\x7f" || char === "\b") {
+      keys.push({ name: "backspace" });
+      i += 1;
+      continue;
+    }
+
+    if (char === "\t") {
+      keys.push({ name: "tab" });
+      i += 1;
+      continue;
+    }
+
+    const code = char.charCodeAt(0);
+    if (code < 32) {
+      keys.push({ name: `ctrl+${String.fromCharCode(code + 96)}` });
+      i += 1;
+      continue;
+    }
+
+    let end = i + 1;
+    while (
+      end < input.length &&
+      input.charCodeAt(end) >= 32 &&
+      input[end] !== "\x7f"
+    ) {
+      end++;
+    }
+    keys.push({ name: "text", text: input.slice(i, end) });
+    i = end;
+  }
+
+  return keys;
+}
+
+// Emacs-style line editor with history and reverse search, fed with the
+// raw bytes coming from the client's terminal. The line being edited can
+// span several rows when text with line breaks is pasted or composed.
+export class LineEditor {
+  private line = "";
+  // Offset into `line`, always on a code point boundary
+  private cursor = 0;
+  // Row of the cursor, relative to the prompt, after the last redraw
+  private cursorRow = 0;
+  private history: string[] = [];
+  private historyIndex = 0;
+  // The line being typed before browsing history
+  private draft = "";
+  private killed = "";
+  private search: SearchState | null = null;
+  private pending = "";
+  private pasting = false;
+  private pasted = "";
+  private decoder = new StringDecoder("utf8");
+  private options: LineEditorOptions;
+
+  constructor(options: LineEditorOptions) {
+    this.options = options;
+  }
+
+  setHistory(lines: string[]) {
+    this.history = lines.slice(-this.historySize);
+    this.historyIndex = this.history.length;
+  }
+
+  // Write the prompt and the line typed so far, starting on the row the
+  // terminal cursor is on
+  render() {
+    this.cursorRow = 0;
+    this.redraw();
+  }
+
+  // Erase the prompt and the line typed so far from the screen, so other
+  // output can be written in their place before the next render()
+  clear() {
+    const up = this.cursorRow > 0 ? `\x1b[${this.cursorRow}A` : "";
+    this.options.write(`${up}\r\x1b[J`);
+    this.cursorRow = 0;
+  }
+
+  feed(data: Buffer) {
+    let input = this.pending + this.decoder.write(data);
+    this.pending = "";
+
+    while (input) {
+      if (this.pasting) {
+        const end = input.indexOf(PASTE_END);
+        if (end < 0) {
+          const partial = partialMarkerLength(input, PASTE_END);
+          this.pasted += input.slice(0, input.length - partial);
+          this.pending = input.slice(input.length - partial);
+          return;
+        }
+        this.pasted += input.slice(0, end);
+        input = input.slice(end + PASTE_END.length);
+        this.pasting = false;
+        this.paste(cleanPastedText(this.pasted));
+        this.pasted = "";
+        continue;
+      }
+
+      const start = input.indexOf(PASTE_START);
+      if (start < 0) {
+        this.handleInput(input);
+        return;
+      }
+      this.handleInput(input.slice(0, start));
+      input = input.slice(start + PASTE_START.length);
+      this.pasting = true;
+    }
+  }
+
+  private handleInput(input: string) {
+    const partial = PARTIAL_ESCAPE_PATTERN.exec(input);
+    if (partial) {
+      this.pending = partial[0];
+      input = input.slice(0, partial.index);
+    }
+
+    for (const key of decodeKeys(input)) {
+      if (this.search) {
+        this.handleSearchKey(key);
+      } else {
+        this.handleKey(key);
+      }
+    }
+  }
+
+  private paste(text: string) {
+    if (this.options.singleLine) {
+      text = text.replace(/\n/g, " ");
+    }
+    if (this.search) {
+      this.handleSearchKey({ name: "text", text: text.replace(/\n/g, " ") });
+    } else {
+      this.insert(text);
+    }
+  }
+
+  // What is on screen: the prompt, and the line with its cursor, which
+  // differ from the real ones while searching or masking
+  private view(): { prompt: string; line: string; cursor: number } {
+    if (this.search) {
+      const { query, match } = this.search;
+      const prompt = `(${
+        match < 0 ? "failed " : ""
+      }reverse-i-search)\`${query}': `;
+      if (match < 0) {
+        return { prompt, line: this.line, cursor: this.cursor };
+      }
+      const line = this.history[match];
+      return { prompt, line, cursor: Math.max(line.lastIndexOf(query), 0) };
+    }
+    if (this.options.mask) {
+      return {
+        prompt: this.options.prompt,
+        line: this.maskText(this.line),
+        cursor: this.maskText(this.line.slice(0, this.cursor)).length,
+      };
+    }
+    return {
+      prompt: this.options.prompt,
+      line: this.line,
+      cursor: this.cursor,
+    };
+  }
+
+  // Screen row, relative to the prompt, and column of an offset into the
+  // line, taking rows wrapped by the terminal into account
+  private screenPosition(
+    prompt: string,
+    line: string,
+    offset: number
+  ): { row: number; column: number; rowWidth: number } {
+    const columns = this.options.columns?.() || Infinity;
+    const rows = line.slice(0, offset).split("\n");
+    const rowWidth = (index: number) =>
+      displayWidth(index === 0 ? prompt : this.options.continuationPrompt) +
+      displayWidth(rows[index]);
+
+    let row = 0;
+    for (let index = 0; index < rows.length - 1; index++) {
+      row += Math.max(1, Math.ceil(rowWidth(index) / columns));
+    }
+    const width = rowWidth(rows.length - 1);
+    return {
+      row: row + Math.floor(width / columns),
+      column: width % columns,
+      rowWidth: width,
+    };
+  }
+
+  private redraw() {
+    const { prompt, line, cursor } = this.view();
+    const end = this.screenPosition(prompt, line, line.length);
+    const target = this.screenPosition(prompt, line, cursor);
+
+    let output = this.cursorRow > 0 ? `\x1b[${this.cursorRow}A` : "";
+    output += `\r\x1b[J${prompt}`;
+    output += line.split("\n").join(`\r\n${this.options.continuationPrompt}`);
+    // A row exactly as wide as the terminal leaves the cursor on its last
+    // column rather than on the next row
+    if (end.column === 0 && end.rowWidth > 0) {
+      output += "\r\n";
+    }
+    if (end.row > target.row) {
+      output += `\x1b[${end.row - target.row}A`;
+    }
+    output += "\r";
+    if (target.column > 0) {
+      output += `\x1b[${target.column}C`;
+    }
+    this.options.write(output);
+    this.cursorRow = target.row;
+  }
+
+  private get historySize(): number {
+    return this.options.historySize ?? 500;
+  }
+
+  private handleKey(key: Key) {
+    switch (key.name) {
+      case "text":
+        this.insert(key.text!);
+        return;
+      case "enter":
+        this.enter();
+        return;
+      case "shift+enter":
+      case "meta+enter":
+      case "ctrl+enter":
+        if (!this.options.singleLine) {
+          this.insert("\n");
+        }
+        return;
+      case "left":
+      case "ctrl+b":
+        this.moveTo(this.previousBoundary(this.cursor));
+        return;
+      case "right":
+      case "ctrl+f":
+        this.moveTo(this.nextBoundary(this.cursor));
+        return;
+      case "home":
+      case "ctrl+a":
+        this.moveTo(this.rowStart(this.cursor));
+        return;
+      case "end":
+      case "ctrl+e":
+        this.moveTo(this.rowEnd(this.cursor));
+        return;
+      case "ctrl+left":
+      case "meta+left":
+      case "meta+b":
+        this.moveTo(this.wordStartBefore(this.cursor));
+        return;
+      case "ctrl+right":
+      case "meta+right":
+      case "meta+f":
+        this.moveTo(this.wordEndAfter(this.cursor));
+        return;
+      case "backspace":
+        this.deleteRange(this.previousBoundary(this.cursor), this.cursor);
+        return;
+      case "delete":
+        this.deleteRange(this.cursor, this.nextBoundary(this.cursor));
+        return;
+      case "ctrl+d":
+        if (this.line === "") {
+          this.options.onClose();
+        } else {
+          this.deleteRange(this.cursor, this.nextBoundary(this.cursor));
+        }
+        return;
+      case "ctrl+w":
+      case "meta+backspace":
+        this.kill(this.wordStartBefore(this.cursor), this.cursor);
+        return;
+      case "meta+d":
+        this.kill(this.cursor, this.wordEndAfter(this.cursor));
+        return;
+      case "ctrl+u":
+        this.kill(this.rowStart(this.cursor), this.cursor);
+        return;
+      case "ctrl+k":
+        // At the end of a row, join it with the next one
+        this.kill(
+          this.cursor,
+          Math.max(this.rowEnd(this.cursor), this.nextBoundary(this.cursor))
+        );
+        return;
+      case "ctrl+y":
+        this.insert(this.killed);
+        return;
+      case "up":
+      case "ctrl+p":
+        if (this.rowStart(this.cursor) > 0) {
+          this.moveToRow(this.rowStart(this.cursor) - 1);
+        } else {
+          this.showHistoryEntry(this.historyIndex - 1);
+        }
+        return;
+      case "down":
+      case "ctrl+n":
+        if (this.rowEnd(this.cursor) < this.line.length) {
+          this.moveToRow(this.rowEnd(this.cursor) + 1);
+        } else {
+          this.showHistoryEntry(this.historyIndex + 1);
+        }
+        return;
+      case "ctrl+r":
+        this.search = {
+          query: "",
+          match: -1,
+          originalLine: this.line,
+          originalCursor: this.cursor,
+        };
+        this.redraw();
+        return;
+      case "tab":
+        this.complete();
+        return;
+      case "ctrl+l":
+        this.options.write("\x1b[2J\x1b[H");
+        this.render();
+        return;
+      case "ctrl+c":
+        if (this.options.onInterrupt) {
+          this.options.onInterrupt();
+        } else if (this.line === "") {
+          this.options.onClose();
+        } else {
+          this.moveTo(this.line.length);
+          this.options.write("^C\r\n");
+          this.setLine("", 0);
+          this.historyIndex = this.history.length;
+          this.render();
+        }
+        return;
+    }
+  }
+
+  private handleSearchKey(key: Key) {
+    const search = this.search!;
+
+    switch (key.name) {
+      case "text":
+        search.query += key.text;
+        search.match = this.findInHistory(
+          search.query,
+          search.match >= 0 ? search.match : this.history.length - 1
+        );
+        this.redraw();
+        return;
+      case "backspace":
+        search.query = search.query.slice(0, -1);
+        search.match = search.query
+          ? this.findInHistory(search.query, this.history.length - 1)
+          : -1;
+        this.redraw();
+        return;
+      case "ctrl+r":
+        if (search.query && search.match > 0) {
+          const older = this.findInHistory(search.query, search.match - 1);
+          if (older >= 0) {
+            search.match = older;
+          }
+        }
+        this.redraw();
+        return;
+      case "ctrl+g":
+      case "ctrl+c":
+      case "escape":
+        this.search = null;
+        this.setLine(search.originalLine, search.originalCursor);
+        this.redraw();
+        return;
+    }
+
+    // Any other key accepts the match and is then handled as usual
+    this.search = null;
+    if (search.match >= 0) {
+      this.historyIndex = search.match;
+      const line = this.history[search.match];
+      this.setLine(line, Math.max(line.lastIndexOf(search.query), 0));
+    } else {
+      this.setLine(search.originalLine, search.originalCursor);
+    }
+    this.redraw();
+    this.handleKey(key);
+  }
+
+  private findInHistory(query: string, from: number): number {
+    for (let i = from; i >= 0; i--) {
+      if (this.history[i].includes(query)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  // Enter sends the line, unless it's a fenced message still missing the
+  // closing fence
+  private enter() {
+    const line = this.line;
+    if (this.options.singleLine || !line.trimStart().startsWith(FENCE)) {
+      this.submit(line);
+      return;
+    }
+
+    const body = line.trimStart().slice(FENCE.length);
+    if (!body.trimEnd().endsWith(FENCE)) {
+      this.moveTo(this.line.length);
+      this.insert("\n");
+      return;
+    }
+    this.submit(line, body.trimEnd().slice(0, -FENCE.length).trim());
+  }
+
+  private submit(line: string, message: string = line) {
+    this.moveTo(this.line.length);
+    this.options.write("\r\n");
+    this.cursorRow = 0;
+
+    if (line.trim() && line !== this.history[this.history.length - 1]) {
+      this.history.push(line);
+      if (this.history.length > this.historySize) {
+        this.history.shift();
+      }
+      this.options.onHistory?.(line);
+    }
+    this.historyIndex = this.history.length;
+    this.draft = "";
+    this.setLine("", 0);
+
+    this.options.onLine(message);
+  }
+
+  // Complete the word before the cursor with the only candidate, or as far
+  // as the candidates agree. When that adds nothing, list them.
+  private async complete() {
+    if (!this.options.complete || this.options.mask) return;
+    const { line, cursor } = this;
+    const before = line.slice(0, cursor);
+    const wordStart = before.search(/\S*$/);
+
+    let candidates: string[];
+    try {
+      candidates = await this.options.complete(before);
+    } catch (error) {
+      console.error("Failed to complete input:", error);
+      return;
+    }
+    // Typing went on while the candidates were looked up
+    if (this.line !== line || this.cursor !== cursor || this.search) return;
+
+    if (candidates.length === 0) {
+      this.options.write("\x07");
+      return;
+    }
+    if (candidates.length === 1) {
+      // Candidates ending in a slash are only part of a word, like "owner/"
+      const [candidate] = candidates;
+      this.replaceWord(
+        wordStart,
+        candidate.endsWith("/") ? candidate : `${candidate} `
+      );
+      return;
+    }
+    const prefix = commonPrefix(candidates);
+    if (prefix.length > cursor - wordStart) {
+      this.replaceWord(wordStart, prefix);
+      return;
+    }
+    this.listCandidates(candidates);
+  }
+
+  private replaceWord(start: number, text: string) {
+    this.setLine(
+      this.line.slice(0, start) + text + this.line.slice(this.cursor),
+      start + text.length
+    );
+    this.redraw();
+  }
+
+  // Write the candidates in columns below the line, then draw it again
+  private listCandidates(candidates: string[]) {
+    const shown = candidates.slice(0, MAX_LISTED_CANDIDATES);
+    const columns = this.options.columns?.() || 80;
+    const width = Math.max(...shown.map(displayWidth)) + 2;
+    const perRow = Math.max(1, Math.floor(columns / width));
+
+    const rows: string[] = [];
+    for (let i = 0; i < shown.length; i += perRow) {
+      rows.push(
+        shown
+          .slice(i, i + perRow)
+          .map(
+            (candidate) =>
+              candidate + " ".repeat(width - displayWidth(candidate))
+          )
+          .join("")
+          .trimEnd()
+      );
+    }
+    if (candidates.length > shown.length) {
+      rows.push(`... and ${candidates.length - shown.length} more`);
+    }
+
+    const cursor = this.cursor;
+    this.moveTo(this.line.length);
+    this.options.write(`\r\n${rows.join("\r\n")}\r\n`);
+    this.cursor = cursor;
+    this.render();
+  }
+
+  private showHistoryEntry(index: number) {
+    if (index < 0 || index > this.history.length) {
+      return;
+    }
+    if (this.historyIndex === this.history.length) {
+      this.draft = this.line;
+    }
+    this.historyIndex = index;
+    const line =
+      index === this.history.length ? this.draft : this.history[index];
+    this.setLine(line, line.length);
+    this.redraw();
+  }
+
+  private setLine(line: string, cursor: number) {
+    this.line = line;
+    this.cursor = cursor;
+  }
+
+  private insert(text: string) {
+    if (!text) return;
+    const atEnd = this.cursor === this.line.length;
+    this.setLine(
+      this.line.slice(0, this.cursor) + text + this.line.slice(this.cursor),
+      this.cursor + text.length
+    );
+    // Typing at the end of the line doesn't need a full redraw, unless
+    // it wraps onto another row
+    const { prompt, line, cursor } = this.view();
+    const position = this.screenPosition(prompt, line, cursor);
+    if (
+      atEnd &&
+      !text.includes("\n") &&
+      position.row === this.cursorRow &&
+      position.column > 0
+    ) {
+      this.options.write(this.options.mask ? this.maskText(text) : text);
+    } else {
+      this.redraw();
+    }
+  }
+
+  private maskText(text: string): string {
+    return "*".repeat([...text].length);
+  }
+
+  private rowStart(position: number): number {
+    return position > 0 ? this.line.lastIndexOf("\n", position - 1) + 1 : 0;
+  }
+
+  private rowEnd(position: number): number {
+    const end = this.line.indexOf("\n", position);
+    return end < 0 ? this.line.length : end;
+  }
+
+  // Move to the row holding `position`, keeping the cursor's column
+  private moveToRow(position: number) {
+    const column = displayWidth(
+      this.line.slice(this.rowStart(this.cursor), this.cursor)
+    );
+    let cursor = this.rowStart(position);
+    const end = this.rowEnd(position);
+    while (
+      cursor < end &&
+      displayWidth(
+        this.line.slice(this.rowStart(position), this.nextBoundary(cursor))
+      ) <= column
+    ) {
+      cursor = this.nextBoundary(cursor);
+    }
+    this.moveTo(cursor);
+  }
+
+  private moveTo(cursor: number) {
+    if (cursor === this.cursor) return;
+    this.cursor = cursor;
+    this.redraw();
+  }
+
+  private deleteRange(start: number, end: number) {
+    if (start >= end) return;
+    this.setLine(this.line.slice(0, start) + this.line.slice(end), start);
+    this.redraw();
+  }
+
+  // Delete a range, keeping it for Ctrl+Y
+  private kill(start: number, end: number) {
+    if (start >= end) return;
+    this.killed = this.line.slice(start, end);
+    this.deleteRange(start, end);
+  }
+
+  private previousBoundary(position: number): number {
+    if (position <= 0) return 0;
+    const code = this.line.charCodeAt(position - 1);
+    // Step over both halves of a surrogate pair
+    return code >= 0xdc00 && code <= 0xdfff && position > 1
+      ? position - 2
+      : position - 1;
+  }
+
+  private nextBoundary(position: number): number {
+    if (position >= this.line.length) return this.line.length;
+    const code = this.line.charCodeAt(position);
+    return code >= 0xd800 && code <= 0xdbff ? position + 2 : position + 1;
+  }
+
+  private isWordCharBefore(position: number): boolean {
+    return WORD_CHAR_PATTERN.test(
+      this.line.slice(this.previousBoundary(position), position)
+    );
+  }
+
+  private isWordCharAt(position: number): boolean {
+    return WORD_CHAR_PATTERN.test(
+      this.line.slice(position, this.nextBoundary(position))
+    );
+  }
+
+  private wordStartBefore(position: number): number {
+    while (position > 0 && !this.isWordCharBefore(position)) {
+      position = this.previousBoundary(position);
+    }
+    while (position > 0 && this.isWordCharBefore(position)) {
+      position = this.previousBoundary(position);
+    }
+    return position;
+  }
+
+  private wordEndAfter(position: number): number {
+    while (position < this.line.length && !this.isWordCharAt(position)) {
+      position = this.nextBoundary(position);
+    }
+    while (position < this.line.length && this.isWordCharAt(position)) {
+      position = this.nextBoundary(position);
+    }
+    return position;
+  }
+}
@@ -0,0 +1,490 @@
+import { highlightLine } from "./highlight";
+import { ClientSession } from "./types";
+import { displayWidth } from "./utils";
+import { WordWrapper } from "./wordWrap";
+
+const RESET = "\x1b[0m";
+const BORDER = "\x1b[90m";
+
+const HEADING_STYLES = [
+  "\x1b[1m\x1b[4m\x1b[35m", // #
+  "\x1b[1m\x1b[35m", // ##
+  "\x1b[1m", // ### and deeper
+];
+const QUOTE_STYLE = "\x1b[3m";
+const RULE_WIDTH = 40;
+
+// Give up waiting for a "[text](url)" link to complete after this many
+// characters and print what we have as is
+const MAX_LINK_LENGTH = 300;
+
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([\w+#-]*)/;
+const CLOSING_FENCE_PATTERN = /^\s*(```|~~~)\s*$/;
+const RULE_PATTERN = /^\s*([-*_])( *\1){2,} *$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Characters that may start inline markup
+const INLINE_SPECIAL = "`*_~[";
+const WORD_CHAR_PATTERN = /[\p{L}\p{N}]/u;
+
+type Block =
+  | { kind: "blank" | "rule" | "table" | "paragraph" }
+  | { kind: "fence"; language: string }
+  | { kind: "heading"; level: number; prefixLength: number }
+  | { kind: "item"; marker: string; prefixLength: number }
+  | { kind: "quote"; prefixLength: number };
+
+// Decide what kind of block a line starts, or return null if we need to
+// see more of it first. `complete` is set once the whole line is known.
+function classifyLine(line: string, complete: boolean): Block | null {
+  const trimmed = line.trimStart();
+  const indent = line.slice(0, line.length - trimmed.length);
+
+  if (!complete) {
+    if (
+      trimmed === "" ||
+      /^[-*_ ]+$/.test(trimmed) || // bullet, emphasis or a rule
+      /^#{1,6}$/.test(trimmed) ||
+      /^(`{1,3}|~{1,3})/.test(trimmed) ||
+      trimmed.startsWith("|") ||
+      /^(\d+\.?|\+|>)$/.test(trimmed)
+    ) {
+      return null;
+    }
+  }
+
+  if (trimmed === "") return { kind: "blank" };
+
+  const fence = FENCE_PATTERN.exec(line);
+  if (fence) return { kind: "fence", language: fence[2] };
+
+  if (RULE_PATTERN.test(line)) return { kind: "rule" };
+  if (trimmed.startsWith("|")) return { kind: "table" };
+
+  const heading = /^(#{1,6})\s+/.exec(trimmed);
+  if (heading) {
+    return {
+      kind: "heading",
+      level: heading[1].length,
+      prefixLength: indent.length + heading[0].length,
+    };
+  }
+
+  const bullet = /^[-*+]\s+/.exec(trimmed);
+  if (bullet) {
+    return {
+      kind: "item",
+      marker: `${indent}${indent.length >= 2 ? "◦" : "•"} `,
+      prefixLength: indent.length + bullet[0].length,
+    };
+  }
+
+  const ordered = /^(\d+)\.\s+/.exec(trimmed);
+  if (ordered) {
+    return {
+      kind: "item",
+      marker: `${indent}${ordered[1]}. `,
+      prefixLength: indent.length + ordered[0].length,
+    };
+  }
+
+  const quote = /^>\s?/.exec(trimmed);
+  if (quote) {
+    return { kind: "quote", prefixLength: indent.length + quote[0].length };
+  }
+
+  return { kind: "paragraph" };
+}
+
+// Emphasis, code spans and links within a line. Keeps its state between
+// calls so markup can be split across streamed chunks.
+class InlineRenderer {
+  // Style for the whole line, e.g. a heading's
+  lineStyle = "";
+  private bold = false;
+  private italic = false;
+  private strike = false;
+  private code = false;
+  // Last character written, to tell opening from closing emphasis
+  private previous = " ";
+
+  // Render as much of `text` as can be decided now, returning the rest.
+  // With `final` set everything is rendered.
+  render(text: string, final: boolean): { output: string; rest: string } {
+    let output = "";
+    let i = 0;
+
+    while (i < text.length) {
+      const char = text[i];
+
+      if (this.code) {
+        const end = text.indexOf("`", i);
+        if (end < 0) {
+          output += text.slice(i);
+          i = text.length;
+          break;
+        }
+        output += text.slice(i, end);
+        this.code = false;
+        output += this.style();
+        this.previous = "`";
+        i = end + 1;
+        continue;
+      }
+
+      if (char === "`") {
+        this.code = true;
+        output += this.style();
+        i++;
+        continue;
+      }
+
+      if (char === "*" || char === "_" || char === "~") {
+        const doubled = text[i + 1] === char;
+        const next = text[i + (doubled ? 2 : 1)];
+        // Wait for the character that decides what this is
+        if (next === undefined && !final) break;
+
+        const length = doubled ? 2 : 1;
+        if (this.toggleEmphasis(char, doubled, next)) {
+          output += this.style();
+        } else {
+          output += text.slice(i, i + length);
+          this.previous = char;
+        }
+        i += length;
+        continue;
+      }
+
+      if (char === "[") {
+        const rest = text.slice(i);
+        const link = /^\[([^\]\n]+)\]\(([^)\s]+)\)/.exec(rest);
+        if (link) {
+          const [markup, label, url] = link;
+          output += `\x1b[4m${label}\x1b[24m`;
+          if (url !== label) {
+            output += `\x1b[2m (${url})${this.style()}`;
+          }
+          this.previous = ")";
+          i += markup.length;
+          continue;
+        }
+        if (
+          !final &&
+          rest.length < MAX_LINK_LENGTH &&
+          /^\[[^\]\n]*(\](\([^)\s]*)?)?$/.test(rest)
+        ) {
+          break;
+        }
+      }
+
+      let end = i + 1;
+      while (end < text.length && !INLINE_SPECIAL.includes(text[end])) {
+        end++;
+      }
+      output += text.slice(i, end);
+      this.previous = text[end - 1];
+      i = end;
+    }
+
+    return { output, rest: text.slice(i) };
+  }
+
+  // Start the line over with no emphasis
+  reset(): string {
+    const styled =
+      this.lineStyle || this.bold || this.italic || this.strike || this.code;
+    this.lineStyle = "";
+    this.bold = this.italic = this.strike = this.code = false;
+    this.previous = " ";
+    return styled ? RESET : "";
+  }
+
+  private toggleEmphasis(
+    char: string,
+    doubled: boolean,
+    next: string | undefined
+  ): boolean {
+    if (char === "~") {
+      if (!doubled) return false;
+      this.strike = !this.strike;
+      return true;
+    }
+
+    const active = doubled ? this.bold : this.italic;
+    const nextIsSpace = next === undefined || /\s/.test(next);
+    const previousIsSpace = /\s/.test(this.previous);
+    // "_" inside a word, as in snake_case, is not emphasis
+    const intraword =
+      char === "_" &&
+      WORD_CHAR_PATTERN.test(this.previous) &&
+      next !== undefined &&
+      WORD_CHAR_PATTERN.test(next);
+    const canToggle = active
+      ? !previousIsSpace && !intraword
+      : !nextIsSpace && !intraword;
+    if (!canToggle) return false;
+
+    if (doubled) {
+      this.bold = !this.bold;
+    } else {
+      this.italic = !this.italic;
+    }
+    return true;
+  }
+
+  private style(): string {
+    return (
+      RESET +
+      this.lineStyle +
+      (this.bold ? "\x1b[1m" : "") +
+      (this.italic ? "\x1b[3m" : "") +
+      (this.strike ? "\x1b[9m" : "") +
+      (this.code ? "\x1b[36m" : "")
+    );
+  }
+}
+
+function renderInlineText(text: string): string {
+  const inline = new InlineRenderer();
+  return inline.render(text, true).output + inline.reset();
+}
+
+function splitTableRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+function renderRows(rows: string[]): string {
+  return rows.map((row) => renderInlineText(row) + "\n").join("");
+}
+
+// Draw a table with box borders. Rows are left as they are if it isn't
+// a table after all, or if it wouldn't fit in `maxWidth` columns.
+function renderTable(rows: string[], maxWidth: number): string {
+  const hasHeader = rows.length > 1 && TABLE_SEPARATOR_PATTERN.test(rows[1]);
+  if (!hasHeader) {
+    return renderRows(rows);
+  }
+
+  const alignments = splitTableRow(rows[1]).map((cell) =>
+    cell.endsWith(":") ? (cell.startsWith(":") ? "center" : "right") : "left"
+  );
+  const cells = [rows[0], ...rows.slice(2)].map((row, index) =>
+    splitTableRow(row).map((cell) =>
+      index === 0
+        ? `\x1b[1m${renderInlineText(cell)}${RESET}`
+        : renderInlineText(cell)
+    )
+  );
+  const columns = Math.max(...cells.map((row) => row.length));
+  const widths = Array.from({ length: columns }, (_, column) =>
+    Math.max(...cells.map((row) => displayWidth(row[column] ?? "")))
+  );
+  const tableWidth = widths.reduce((total, width) => total + width + 3, 0) + 1;
+  if (tableWidth > maxWidth) {
+    return renderRows(rows);
+  }
+
+  const pad = (cell: string, column: number) => {
+    const space = widths[column] - displayWidth(cell);
+    const alignment = alignments[column] ?? "left";
+    const left =
+      alignment === "right"
+        ? space
+        : alignment === "center"
+        ? Math.floor(space / 2)
+        : 0;
+    return " ".repeat(left) + cell + " ".repeat(space - left);
+  };
+  const border = (left: string, middle: string, right: string) =>
+    BORDER +
+    left +
+    widths.map((width) => "─".repeat(width + 2)).join(middle) +
+    right +
+    RESET +
+    "\n";
+  const row = (row: string[]) =>
+    `${BORDER}│${RESET} ` +
+    widths
+      .map((_, column) => pad(row[column] ?? "", column))
+      .join(` ${BORDER}│${RESET} `) +
+    ` ${BORDER}│${RESET}\n`;
+
+  return (
+    border("┌", "┬", "┐") +
+    row(cells[0]) +
+    border("├", "┼", "┤") +
+    cells.slice(1).map(row).join("") +
+    border("└", "┴", "┘")
+  );
+}
+
+// Turns Markdown into ANSI styled text as it streams in. Text is written
+// as soon as its styling is known; code blocks go out a line at a time
+// and tables once their last row has arrived. Lines are wrapped to
+// `columns`, with list items, quotes and code lined up past their marker.
+export class MarkdownRenderer {
+  private pending = "";
+  private atLineStart = true;
+  private inline = new InlineRenderer();
+  private codeLanguage: string | null = null;
+  private tableRows: string[] = [];
+  private wrapper: WordWrapper;
+  private columns: () => number;
+
+  constructor(
+    write: (text: string) => void,
+    columns: () => number = () => Infinity
+  ) {
+    this.wrapper = new WordWrapper(write, columns);
+    this.columns = columns;
+  }
+
+  private write(text: string) {
+    this.wrapper.write(text);
+  }
+
+  push(text: string) {
+    this.pending += text;
+    this.process(false);
+  }
+
+  // Flush everything still held back once the response is complete
+  end() {
+    this.process(true);
+    if (this.tableRows.length > 0) {
+      this.write(renderTable(this.tableRows, this.columns()));
+      this.tableRows = [];
+    }
+    if (this.codeLanguage !== null) {
+      this.write(`${BORDER}└─${RESET}`);
+      this.codeLanguage = null;
+    }
+    this.write(this.inline.reset());
+    this.wrapper.flush();
+  }
+
+  private process(final: boolean) {
+    while (this.pending) {
+      const newline = this.pending.indexOf("\n");
+      const line = newline < 0 ? this.pending : this.pending.slice(0, newline);
+      const complete = newline >= 0 || final;
+      const consumeLine = () => {
+        this.pending = newline < 0 ? "" : this.pending.slice(newline + 1);
+      };
+
+      if (this.codeLanguage !== null) {
+        if (!complete) return;
+        consumeLine();
+        if (CLOSING_FENCE_PATTERN.test(line)) {
+          this.write(`${BORDER}└─${RESET}\n`);
+          this.codeLanguage = null;
+        } else {
+          const code = highlightLine(line, this.codeLanguage);
+          this.wrapper.setIndent(2);
+          this.write(`${BORDER}│${RESET} ${code}\n`);
+        }
+        continue;
+      }
+
+      if (this.atLineStart) {
+        if (this.tableRows.length > 0) {
+          const trimmed = line.trimStart();
+          if (!complete && (trimmed === "" || trimmed.startsWith("|"))) {
+            return;
+          }
+          if (trimmed.startsWith("|")) {
+            this.tableRows.push(line);
+            consumeLine();
+            continue;
+          }
+          this.write(renderTable(this.tableRows, this.columns()));
+          this.tableRows = [];
+        }
+
+        const block = classifyLine(line, complete);
+        if (!block) return;
+
+        switch (block.kind) {
+          case "blank":
+            consumeLine();
+            this.write(newline < 0 ? "" : "\n");
+            continue;
+          case "fence":
+            if (!complete) return;
+            consumeLine();
+            this.codeLanguage = block.language;
+            this.write(
+              `${BORDER}┌─${
+                block.language ? ` ${block.language}` : ""
+              }${RESET}\n`
+            );
+            continue;
+          case "rule":
+            consumeLine();
+            const width = Math.min(RULE_WIDTH, this.columns());
+            this.write(`${BORDER}${"─".repeat(width)}${RESET}\n`);
+            continue;
+          case "table":
+            consumeLine();
+            this.tableRows.push(line);
+            continue;
+          case "heading": {
+            const style =
+              HEADING_STYLES[Math.min(block.level, HEADING_STYLES.length) - 1];
+            this.inline.lineStyle = style;
+            this.write(style);
+            this.pending = this.pending.slice(block.prefixLength);
+            break;
+          }
+          case "item":
+            this.wrapper.setIndent(displayWidth(block.marker));
+            this.write(`\x1b[36m${block.marker}${RESET}`);
+            this.pending = this.pending.slice(block.prefixLength);
+            break;
+          case "quote":
+            this.inline.lineStyle = QUOTE_STYLE;
+            this.wrapper.setIndent(2);
+            this.write(`${BORDER}│${RESET} ${QUOTE_STYLE}`);
+            this.pending = this.pending.slice(block.prefixLength);
+            break;
+        }
+        this.atLineStart = false;
+        continue;
+      }
+
+      const { output, rest } = this.inline.render(line, complete);
+      this.write(output);
+      if (!complete) {
+        this.pending = rest;
+        return;
+      }
+      consumeLine();
+      this.write(this.inline.reset() + (newline < 0 ? "" : "\n"));
+      this.atLineStart = true;
+    }
+  }
+}
+
+// Write model output to a session, rendered unless the user turned it
+// off, and wrapped to the width of its terminal either way
+export function createOutputRenderer(session: ClientSession): {
+  push: (text: string) => void;
+  end: () => void;
+} {
+  const write = (text: string) => session.writeToStream(text, false);
+  const columns = () => session.terminal.cols;
+  if (!session.renderMarkdown) {
+    const wrapper = new WordWrapper(write, columns);
+    return {
+      push: (text) => wrapper.write(text),
+      end: () => wrapper.flush(),
+    };
+  }
+  return new MarkdownRenderer(write, columns);
+}
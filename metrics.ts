@@ -0,0 +1,244 @@
+import { ChatChunk, ChatRequest, LLMProvider } from "./providers/types";
+
+// Prometheus metrics, kept in memory and rendered in the text exposition
+// format for /metrics
+
+const PREFIX = "questionsh";
+
+// Seconds, from a quick reply to a long essay
+const DURATION_BUCKETS = [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+
+type Labels = Record<string, string>;
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Series are stored by their rendered labels
+function seriesKey(labels: Labels): string {
+  return formatLabels(
+    Object.fromEntries(
+      Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))
+    )
+  );
+}
+
+class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+  readonly name: string;
+  private help: string;
+
+  constructor(name: string, help: string) {
+    this.name = `${PREFIX}_${name}`;
+    this.help = help;
+  }
+
+  inc(labels: Labels = {}, amount: number = 1) {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) ?? { labels, value: 0 };
+    series.value += amount;
+    this.values.set(key, series);
+  }
+
+  series(): { labels: Labels; value: number }[] {
+    return [...this.values.values()];
+  }
+
+  render(): string {
+    let output = `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} counter\n`;
+    for (const { labels, value } of this.values.values()) {
+      output += `${this.name}${formatLabels(labels)} ${value}\n`;
+    }
+    return output;
+  }
+}
+
+class Histogram {
+  private values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+  readonly name: string;
+  private help: string;
+  private buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = `${PREFIX}_${name}`;
+    this.help = help;
+    this.buckets = buckets;
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.values.set(key, series);
+  }
+
+  render(): string {
+    let output = `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} histogram\n`;
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, index) => {
+        output += `${this.name}_bucket${formatLabels({
+          ...labels,
+          le: String(bound),
+        })} ${counts[index]}\n`;
+      });
+      output += `${this.name}_bucket${formatLabels({
+        ...labels,
+        le: "+Inf",
+      })} ${count}\n`;
+      output += `${this.name}_sum${formatLabels(labels)} ${sum}\n`;
+      output += `${this.name}_count${formatLabels(labels)} ${count}\n`;
+    }
+    return output;
+  }
+}
+
+function gauge(name: string, help: string, value: number): string {
+  const fullName = `${PREFIX}_${name}`;
+  return `# HELP ${fullName} ${help}\n# TYPE ${fullName} gauge\n${fullName} ${value}\n`;
+}
+
+const requests = new Counter(
+  "model_requests_total",
+  "Requests sent to models, by outcome (ok, error or cancelled)."
+);
+const requestDuration = new Histogram(
+  "model_request_duration_seconds",
+  "Time from sending a request to the end of its response.",
+  DURATION_BUCKETS
+);
+const firstTokenLatency = new Histogram(
+  "model_first_token_seconds",
+  "Time from sending a request to the first text of its response.",
+  DURATION_BUCKETS
+);
+const tokens = new Counter(
+  "model_tokens_total",
+  "Tokens used, by model and type (prompt or completion)."
+);
+const charged = new Counter(
+  "charged_usd_total",
+  "Credits charged for requests, in USD."
+);
+const providerErrors = new Counter(
+  "provider_errors_total",
+  "Requests that failed with an error from the provider."
+);
+
+// Record a request's charge once it is settled
+export function recordCharge(model: string, cost: number) {
+  charged.inc({ model }, cost);
+}
+
+// Requests per model since the server started
+export function requestsPerModel(): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const { labels, value } of requests.series()) {
+    counts[labels.model] = (counts[labels.model] ?? 0) + value;
+  }
+  return counts;
+}
+
+async function* instrumentStream(
+  provider: string,
+  request: ChatRequest,
+  stream: AsyncIterable<ChatChunk>
+): AsyncIterable<ChatChunk> {
+  const labels = { model: request.model, provider };
+  const start = performance.now();
+  const elapsed = () => (performance.now() - start) / 1000;
+  let firstText = true;
+  // Stays "cancelled" if the caller stops reading before the end
+  let status = "cancelled";
+
+  try {
+    for await (const chunk of stream) {
+      if (chunk.type === "text" && firstText) {
+        firstText = false;
+        firstTokenLatency.observe(labels, elapsed());
+      }
+      if (chunk.type === "usage") {
+        tokens.inc(
+          { model: request.model, type: "prompt" },
+          chunk.usage.prompt_tokens
+        );
+        tokens.inc(
+          { model: request.model, type: "completion" },
+          chunk.usage.completion_tokens
+        );
+      }
+      yield chunk;
+    }
+    status = "ok";
+  } catch (error) {
+    status = "error";
+    providerErrors.inc({ provider });
+    throw error;
+  } finally {
+    requests.inc({ ...labels, status });
+    requestDuration.observe(labels, elapsed());
+  }
+}
+
+// Wrap a provider so its requests show up in the metrics
+export function instrumentProvider(provider: LLMProvider): LLMProvider {
+  return {
+    name: provider.name,
+    streamChat: (request) =>
+      instrumentStream(provider.name, request, provider.streamChat(request)),
+    listModels: () => provider.listModels(),
+    canonicalModelId: provider.canonicalModelId
+      ? (modelId) => provider.canonicalModelId!(modelId)
+      : undefined,
+  };
+}
+
+// All metrics in the Prometheus text format. Gauges are read when
+// scraped.
+export function renderMetrics(gauges: {
+  sessions: number;
+  cachedModels: number;
+}): string {
+  return [
+    gauge("sessions_active", "Interactive sessions open.", gauges.sessions),
+    gauge(
+      "models_cached",
+      "Models in the cached catalog.",
+      gauges.cachedModels
+    ),
+    gauge(
+      "uptime_seconds",
+      "Seconds since the server started.",
+      Math.floor(process.uptime())
+    ),
+    requests.render(),
+    requestDuration.render(),
+    firstTokenLatency.render(),
+    tokens.render(),
+    charged.render(),
+    providerErrors.render(),
+  ].join("");
+}
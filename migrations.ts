@@ -0,0 +1,120 @@
+import fs from "fs";
+import path from "path";
+import { sql } from "./database";
+
+// Schema changes live in migrations/NNN_description.sql and are applied in
+// order at startup. Each one runs in its own transaction and is recorded
+// in schema_migrations, so it is only ever applied once. Applied
+// migrations must not be edited; change the schema with a new one.
+const MIGRATIONS_DIR = path.join(import.meta.dir, "migrations");
+const MIGRATION_FILE = /^(\d+)_(\w+)\.sql$/;
+
+// Held while migrating, so servers starting together take turns
+const MIGRATION_LOCK_ID = 72_616_001;
+
+interface Migration {
+  version: number;
+  name: string;
+  file: string;
+}
+
+function loadMigrations(): Migration[] {
+  const migrations: Migration[] = [];
+  for (const file of fs.readdirSync(MIGRATIONS_DIR)) {
+    const match = file.match(MIGRATION_FILE);
+    if (!match) {
+      if (file.endsWith(".sql")) {
+        console.warn(`Ignoring migration with an unexpected name: ${file}`);
+      }
+      continue;
+    }
+    migrations.push({
+      version: Number(match[1]),
+      name: match[2],
+      file: path.join(MIGRATIONS_DIR, file),
+    });
+  }
+
+  migrations.sort((a, b) => a.version - b.version);
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(
+        `Two migrations are numbered ${migrations[i].version}: ${
+          migrations[i - 1].name
+        } and ${migrations[i].name}`
+      );
+    }
+  }
+  return migrations;
+}
+
+async function appliedVersions(): Promise<number[]> {
+  const rows = await sql<{ version: number }[]>`
+    SELECT version FROM schema_migrations ORDER BY version
+  `;
+  return rows.map((row) => row.version);
+}
+
+async function applyMigration(migration: Migration): Promise<boolean> {
+  const statements = fs.readFileSync(migration.file, "utf-8");
+  return sql.begin(async (tx) => {
+    await tx`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_ID})`;
+    // Another server may have applied it while we waited for the lock
+    const [applied] = await tx`
+      SELECT 1 FROM schema_migrations WHERE version = ${migration.version}
+    `;
+    if (applied) {
+      return false;
+    }
+    await tx.unsafe(statements);
+    await tx`
+      INSERT INTO schema_migrations (version, name)
+      VALUES (${migration.version}, ${migration.name})
+    `;
+    return true;
+  });
+}
+
+// Bring the database schema up to date. Exits if a migration fails, or if
+// the database has migrations this code doesn't know about, which means
+// it was migrated by a newer version.
+export async function runMigrations() {
+  try {
+    await sql`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    const migrations = loadMigrations();
+    const known = new Set(migrations.map((migration) => migration.version));
+    const applied = await appliedVersions();
+    const unknown = applied.filter((version) => !known.has(version));
+    if (unknown.length > 0) {
+      throw new Error(
+        `The database has migrations this version doesn't know about (${unknown.join(
+          ", "
+        )}). It was migrated by a newer version of question.sh, deploy that instead.`
+      );
+    }
+
+    const pending = migrations.filter(
+      (migration) => !applied.includes(migration.version)
+    );
+    for (const migration of pending) {
+      if (await applyMigration(migration)) {
+        console.log(`Applied migration ${migration.version}_${migration.name}`);
+      }
+    }
+    console.log(
+      `Database schema is up to date (version ${
+        migrations.at(-1)?.version ?? 0
+      })`
+    );
+  } catch (error) {
+    console.error("Database migration failed:", error);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,163 @@
+-- The schema as it was before migrations, written so it also applies to
+-- databases that were set up by hand from the old init.sql
+
+-- Create the accounts table
+CREATE TABLE IF NOT EXISTS accounts (
+    id UUID PRIMARY KEY,
+    username VARCHAR(255) UNIQUE NOT NULL,
+    email VARCHAR(255) UNIQUE,
+    credits NUMERIC(14, 8) NOT NULL DEFAULT 0.3,
+    password_hash VARCHAR(255) NOT NULL,
+    selected_model VARCHAR(255)
+);
+
+-- Columns missing from accounts tables created by early versions
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS email VARCHAR(255) UNIQUE;
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS selected_model VARCHAR(255);
+
+-- Create an index on the username column for faster lookups
+CREATE INDEX IF NOT EXISTS idx_accounts_username ON accounts(username);
+
+-- Create the characters table
+CREATE TABLE IF NOT EXISTS characters (
+    id UUID PRIMARY KEY,
+    owner_id UUID NOT NULL REFERENCES accounts(id),
+    name VARCHAR(255) NOT NULL,
+    system_prompt TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (owner_id, name)
+);
+
+-- Create an index on the owner_id and name columns for faster lookups
+CREATE INDEX IF NOT EXISTS idx_characters_owner_name ON characters(owner_id, name);
+
+-- Create the game_saves table
+CREATE TABLE IF NOT EXISTS game_saves (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES accounts(id),
+    conversation JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id)
+);
+
+-- Create an index on the user_id for faster lookups
+CREATE INDEX IF NOT EXISTS idx_game_saves_user_id ON game_saves(user_id);
+
+-- Create the ssh_keys table
+CREATE TABLE IF NOT EXISTS ssh_keys (
+    id UUID PRIMARY KEY,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    fingerprint VARCHAR(255) UNIQUE NOT NULL,
+    algorithm VARCHAR(64) NOT NULL,
+    public_key TEXT NOT NULL,
+    comment VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create an index on the account_id for listing an account's keys
+CREATE INDEX IF NOT EXISTS idx_ssh_keys_account_id ON ssh_keys(account_id);
+
+-- Create the conversations table
+CREATE TABLE IF NOT EXISTS conversations (
+    id UUID PRIMARY KEY,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    title VARCHAR(255) NOT NULL,
+    model VARCHAR(255) NOT NULL,
+    system_prompt TEXT NOT NULL,
+    messages JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create an index for listing an account's most recent conversations
+CREATE INDEX IF NOT EXISTS idx_conversations_account_updated ON conversations(account_id, updated_at DESC);
+
+-- Per-request debits are fractions of a cent, keep enough precision for them
+ALTER TABLE accounts ALTER COLUMN credits TYPE NUMERIC(14, 8);
+
+-- Create the credit_transactions ledger, one row per balance change
+CREATE TABLE IF NOT EXISTS credit_transactions (
+    id UUID PRIMARY KEY,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    kind VARCHAR(32) NOT NULL,
+    amount NUMERIC(14, 8) NOT NULL,
+    balance_after NUMERIC(14, 8) NOT NULL,
+    model VARCHAR(255),
+    prompt_tokens INTEGER,
+    completion_tokens INTEGER,
+    provider_cost NUMERIC(14, 8),
+    session_id VARCHAR(64),
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create an index for an account's most recent transactions
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_account_created ON credit_transactions(account_id, created_at DESC);
+
+-- Create the credit_reservations table, credits held while a request runs
+CREATE TABLE IF NOT EXISTS credit_reservations (
+    id UUID PRIMARY KEY,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    amount NUMERIC(14, 8) NOT NULL,
+    settled_amount NUMERIC(14, 8),
+    model VARCHAR(255),
+    session_id VARCHAR(64),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    settled_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create an index to find reservations that were never settled
+CREATE INDEX IF NOT EXISTS idx_credit_reservations_open ON credit_reservations(created_at) WHERE settled_at IS NULL;
+
+-- Create the guest_quotas table, keyed by "ip:<address>" or "key:<fingerprint>"
+CREATE TABLE IF NOT EXISTS guest_quotas (
+    quota_key VARCHAR(255) PRIMARY KEY,
+    credits NUMERIC(14, 8) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    refilled_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create the command_history table, lines entered at the prompt
+CREATE TABLE IF NOT EXISTS command_history (
+    id BIGSERIAL PRIMARY KEY,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    line TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create an index for loading an account's most recent lines
+CREATE INDEX IF NOT EXISTS idx_command_history_account_id ON command_history(account_id, id DESC);
+
+-- Admins can use the /admin commands
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS is_admin BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Create the bans table, target is an account id or an IP address
+CREATE TABLE IF NOT EXISTS bans (
+    id UUID PRIMARY KEY,
+    kind VARCHAR(16) NOT NULL,
+    target VARCHAR(255) NOT NULL,
+    reason TEXT,
+    created_by UUID REFERENCES accounts(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    lifted_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create an index for checking a connection against active bans
+CREATE INDEX IF NOT EXISTS idx_bans_target ON bans(kind, target) WHERE lifted_at IS NULL;
+
+-- Create the admin_audit_log table, one row per admin action
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    admin_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+    action VARCHAR(32) NOT NULL,
+    target VARCHAR(255),
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create an index for listing the most recent actions
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at DESC);
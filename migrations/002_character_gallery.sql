@@ -0,0 +1,18 @@
+-- Characters can be shared: unlisted ones can be used by anyone who knows
+-- their owner/name, public ones are also listed in the gallery
+ALTER TABLE characters ADD COLUMN visibility VARCHAR(16) NOT NULL DEFAULT 'private'
+    CHECK (visibility IN ('private', 'unlisted', 'public'));
+ALTER TABLE characters ADD COLUMN use_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE characters ADD COLUMN forked_from UUID REFERENCES characters(id) ON DELETE SET NULL;
+
+-- Create an index for browsing public characters by popularity
+CREATE INDEX idx_characters_public_use_count ON characters(use_count DESC) WHERE visibility = 'public';
+
+-- Create the character_ratings table, one rating per account and character
+CREATE TABLE character_ratings (
+    character_id UUID NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (character_id, account_id)
+);
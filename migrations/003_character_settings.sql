@@ -0,0 +1,6 @@
+-- Settings a character applies when it is used, and example exchanges
+-- sent ahead of the conversation as [{"user": ..., "assistant": ...}]
+ALTER TABLE characters ADD COLUMN model VARCHAR(255);
+ALTER TABLE characters ADD COLUMN temperature REAL CHECK (temperature BETWEEN 0 AND 2);
+ALTER TABLE characters ADD COLUMN greeting TEXT;
+ALTER TABLE characters ADD COLUMN examples JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,7 @@
+-- Create the favorite_models table, the models an account keeps at hand
+CREATE TABLE favorite_models (
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    model_id VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (account_id, model_id)
+);
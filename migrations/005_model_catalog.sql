@@ -0,0 +1,26 @@
+-- Create the model_catalog_snapshots table, the catalog as fetched from the
+-- providers. A server that starts while they are unreachable uses the
+-- latest one. A new row is only added when the catalog changed.
+CREATE TABLE model_catalog_snapshots (
+    id SERIAL PRIMARY KEY,
+    models JSONB NOT NULL,
+    model_count INTEGER NOT NULL,
+    checksum CHAR(64) NOT NULL,
+    fetched_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    -- Last time a fetch returned this same catalog
+    checked_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create the model_price_history table, one row each time a model's
+-- provider price changes, so charges can be checked against the prices
+-- in effect when they were made. Prices are USD per token, before margin.
+CREATE TABLE model_price_history (
+    id SERIAL PRIMARY KEY,
+    model_id VARCHAR(255) NOT NULL,
+    prompt_price NUMERIC(20, 12) NOT NULL,
+    completion_price NUMERIC(20, 12) NOT NULL,
+    effective_from TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create an index for a model's prices, latest first
+CREATE INDEX idx_model_price_history_model ON model_price_history(model_id, effective_from DESC);
@@ -0,0 +1,4 @@
+-- What happens to the oldest turns when a conversation outgrows the
+-- model's context window: dropped, or folded into a summary
+ALTER TABLE accounts ADD COLUMN context_mode VARCHAR(16) NOT NULL DEFAULT 'summarize'
+    CHECK (context_mode IN ('drop', 'summarize'));
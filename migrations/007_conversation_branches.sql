@@ -0,0 +1,3 @@
+-- Every branch of a conversation, from regenerated answers and edited
+-- messages. messages still holds the branch in use.
+ALTER TABLE conversations ADD COLUMN branches JSONB;
@@ -0,0 +1,147 @@
+import cron from "node-cron";
+import { createHash } from "crypto";
+import { jsonb, sql } from "./database";
+import {
+  fetchAndCacheModelList,
+  getModelList,
+  ModelInfo,
+  restoreModelList,
+} from "./providers";
+
+// When the catalog is fetched again, as a cron expression
+const REFRESH_SCHEDULE = process.env.MODEL_REFRESH_SCHEDULE ?? "*/15 * * * *";
+
+// Distinct catalogs kept in model_catalog_snapshots
+const SNAPSHOTS_KEPT = 10;
+
+// Start from the latest saved catalog, so models and prices are known
+// before the providers answer, or when they can't be reached at all
+export async function loadCatalogSnapshot() {
+  try {
+    const [snapshot] = await sql<{ models: ModelInfo[]; fetched_at: Date }[]>`
+      SELECT models, fetched_at FROM model_catalog_snapshots
+      ORDER BY id DESC
+      LIMIT 1
+    `;
+    if (!snapshot) {
+      console.log("No saved model catalog yet");
+      return;
+    }
+    restoreModelList(snapshot.models);
+    console.log(
+      `Using the model catalog saved at ${snapshot.fetched_at.toISOString()} until the providers answer`
+    );
+  } catch (error) {
+    console.error("Error loading the saved model catalog:", error);
+  }
+}
+
+async function saveCatalogSnapshot(models: ModelInfo[]) {
+  // Providers don't always list models in the same order
+  const sorted = [...models].sort((a, b) => a.id.localeCompare(b.id));
+  const checksum = createHash("sha256")
+    .update(JSON.stringify(sorted))
+    .digest("hex");
+
+  const [latest] = await sql<{ id: number; checksum: string }[]>`
+    SELECT id, checksum FROM model_catalog_snapshots
+    ORDER BY id DESC
+    LIMIT 1
+  `;
+  if (latest?.checksum === checksum) {
+    await sql`
+      UPDATE model_catalog_snapshots SET checked_at = NOW()
+      WHERE id = ${latest.id}
+    `;
+    return;
+  }
+
+  await sql`
+    INSERT INTO model_catalog_snapshots (models, model_count, checksum)
+    VALUES (${jsonb(sorted)}, ${sorted.length}, ${checksum})
+  `;
+  await sql`
+    DELETE FROM model_catalog_snapshots
+    WHERE id <= (
+      SELECT id FROM model_catalog_snapshots
+      ORDER BY id DESC
+      OFFSET ${SNAPSHOTS_KEPT}
+      LIMIT 1
+    )
+  `;
+  console.log(`Saved a new model catalog snapshot (${sorted.length} models)`);
+}
+
+// Add a price history row for every model whose price differs from the
+// last one recorded, including models seen for the first time
+async function recordPriceChanges(models: ModelInfo[]) {
+  const prices = models
+    .map((model) => ({
+      model_id: model.id,
+      prompt_price: Number(model.pricing.prompt),
+      completion_price: Number(model.pricing.completion),
+    }))
+    .filter(
+      (price) =>
+        Number.isFinite(price.prompt_price) &&
+        Number.isFinite(price.completion_price)
+    );
+
+  const changed = await sql<{ model_id: string }[]>`
+    INSERT INTO model_price_history (model_id, prompt_price, completion_price)
+    SELECT p.model_id, p.prompt_price, p.completion_price
+    FROM (
+      -- Rounded as stored, or they would never equal the last price
+      SELECT model_id, ROUND(prompt_price, 12) AS prompt_price,
+        ROUND(completion_price, 12) AS completion_price
+      FROM jsonb_to_recordset(${jsonb(prices)}) AS r(
+        model_id TEXT, prompt_price NUMERIC, completion_price NUMERIC
+      )
+    ) p
+    LEFT JOIN LATERAL (
+      SELECT prompt_price, completion_price FROM model_price_history h
+      WHERE h.model_id = p.model_id
+      ORDER BY effective_from DESC, id DESC
+      LIMIT 1
+    ) latest ON TRUE
+    WHERE latest.prompt_price IS DISTINCT FROM p.prompt_price
+      OR latest.completion_price IS DISTINCT FROM p.completion_price
+    RETURNING model_id
+  `;
+  if (changed.length > 0) {
+    console.log(`Recorded new prices for ${changed.length} models`);
+  }
+}
+
+// Fetch the catalog from the providers, then save it and any price
+// changes. When no provider answers, the catalog in use is kept.
+export async function refreshModelCatalog() {
+  if (!(await fetchAndCacheModelList())) {
+    console.error("No provider listed its models, keeping the current list");
+    return;
+  }
+  try {
+    const models = getModelList();
+    await saveCatalogSnapshot(models);
+    await recordPriceChanges(models);
+  } catch (error) {
+    console.error("Error saving the model catalog:", error);
+  }
+}
+
+export function scheduleCatalogRefresh() {
+  cron.schedule(REFRESH_SCHEDULE, () => refreshModelCatalog());
+  console.log(`Model catalog refreshes on schedule "${REFRESH_SCHEDULE}"`);
+}
+
+// A model's provider prices over time, latest first
+export async function priceHistory(modelId: string) {
+  return sql<
+    { prompt_price: string; completion_price: string; effective_from: Date }[]
+  >`
+    SELECT prompt_price, completion_price, effective_from
+    FROM model_price_history
+    WHERE model_id = ${modelId}
+    ORDER BY effective_from DESC, id DESC
+  `;
+}
@@ -0,0 +1,593 @@
+import { sql } from "./database";
+import { ClientSession } from "./types";
+import { findModel, getModelList, ModelInfo } from "./providers";
+import { hasFixedPrice, pricePerToken } from "./pricing";
+
+const PAGE_SIZE = 20;
+const SEARCH_LIMIT = 20;
+const SUGGESTION_LIMIT = 3;
+
+// Longer ids push the prices out of line instead of being cut
+const MAX_ID_COLUMN = 45;
+
+// Options narrowing /model list and /model search
+export const FILTER_OPTIONS = ["--provider", "--max-price", "--min-context"];
+
+export const MODEL_SUBCOMMANDS = [
+  "list",
+  "search",
+  "info",
+  "use",
+  "fav",
+  "unfav",
+  "favs",
+];
+
+export const MODEL_USAGE =
+  "  /model [page] [filters]             - List models, newest first\n" +
+  "  /model search <text> [filters]      - Search models by id and name\n" +
+  "  /model info [model_id]              - Show pricing, context window and modalities\n" +
+  "  /model use <model_id>               - Select a model (also /model <model_id>)\n" +
+  "  /model fav [model_id]               - Add a model to your favorites\n" +
+  "  /model unfav <model_id>             - Remove a model from your favorites\n" +
+  "  /model favs                         - List your favorite models\n" +
+  "Filters:\n" +
+  "  --provider <name>     - Served by, or id starting with, e.g. openai\n" +
+  "  --max-price <usd>     - Prompt and completion each at most this per million tokens\n" +
+  "  --min-context <size>  - Context window of at least this many tokens, e.g. 128k";
+
+interface ModelFilter {
+  provider?: string;
+  maxPrice?: number;
+  minContext?: number;
+}
+
+function isLoggedIn(session: ClientSession): boolean {
+  return !!session.username && session.username !== "guest";
+}
+
+// "128k", "1m" or a plain number of tokens
+function parseTokenCount(text: string): number | null {
+  const match = text.toLowerCase().match(/^(\d+(?:\.\d+)?)([km]?)$/);
+  if (!match) {
+    return null;
+  }
+  const multipliers = { "": 1, k: 1000, m: 1_000_000 };
+  return Number(match[1]) * multipliers[match[2] as keyof typeof multipliers];
+}
+
+// Takes the filter options out of the arguments. Returns an error message
+// when one is missing its value or the value doesn't parse.
+function parseFilters(
+  args: string[]
+): { filter: ModelFilter; rest: string[] } | string {
+  const filter: ModelFilter = {};
+  const rest: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const option = args[i].toLowerCase();
+    if (!FILTER_OPTIONS.includes(option)) {
+      rest.push(args[i]);
+      continue;
+    }
+    const value = args[++i];
+    if (value === undefined) {
+      return `${option} needs a value.`;
+    }
+    switch (option) {
+      case "--provider":
+        filter.provider = value.toLowerCase();
+        break;
+      case "--max-price": {
+        const price = Number(value.replace(/^\$/, ""));
+        if (!(price >= 0)) {
+          return "--max-price takes a price in USD per million tokens, like 5 or 0.5.";
+        }
+        filter.maxPrice = price;
+        break;
+      }
+      case "--min-context": {
+        const tokens = parseTokenCount(value);
+        if (tokens === null) {
+          return "--min-context takes a number of tokens, like 32000 or 128k.";
+        }
+        filter.minContext = tokens;
+        break;
+      }
+    }
+  }
+  return { filter, rest };
+}
+
+// What users pay, in USD per million tokens
+function pricePerMillion(model: ModelInfo) {
+  const price = pricePerToken(model);
+  return {
+    prompt: price.prompt * 1_000_000,
+    completion: price.completion * 1_000_000,
+  };
+}
+
+function matchesFilter(model: ModelInfo, filter: ModelFilter): boolean {
+  if (
+    filter.provider &&
+    model.provider !== filter.provider &&
+    !model.id.toLowerCase().startsWith(`${filter.provider}/`)
+  ) {
+    return false;
+  }
+  if (filter.maxPrice !== undefined) {
+    const price = pricePerMillion(model);
+    // Negative prices mean the price depends on the request
+    if (
+      price.prompt < 0 ||
+      price.completion < 0 ||
+      price.prompt > filter.maxPrice ||
+      price.completion > filter.maxPrice
+    ) {
+      return false;
+    }
+  }
+  if (
+    filter.minContext !== undefined &&
+    (model.context_length ?? 0) < filter.minContext
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// The providers and id prefixes --provider can take
+export function modelProviders(): string[] {
+  const providers = new Set<string>();
+  for (const model of getModelList()) {
+    providers.add(model.provider);
+    if (model.id.includes("/")) {
+      providers.add(model.id.slice(0, model.id.indexOf("/")));
+    }
+  }
+  return [...providers];
+}
+
+// How well one typed word matches the text, higher is better. Substrings
+// score highest, especially at the start of a word; failing that the
+// letters only have to appear in order, so "cl35son" finds
+// claude-3.5-sonnet. Null when the word doesn't match at all.
+function wordScore(word: string, text: string): number | null {
+  const index = text.indexOf(word);
+  if (index >= 0) {
+    const atWordStart = index === 0 || /[\s/:._-]/.test(text[index - 1]);
+    return 100 + (atWordStart ? 50 : 0) + word.length;
+  }
+
+  let score = 0;
+  let from = 0;
+  let run = 0;
+  for (const char of word) {
+    const found = text.indexOf(char, from);
+    if (found < 0) {
+      return null;
+    }
+    // Letters in a row count for more than scattered ones
+    run = found === from ? run + 1 : 0;
+    score += 1 + run;
+    from = found + 1;
+  }
+  return Math.min(score, 99);
+}
+
+function matchScore(query: string, model: ModelInfo): number | null {
+  const text = `${model.id} ${model.name}`.toLowerCase();
+  let score = 0;
+  for (const word of query.toLowerCase().split(/\s+/).filter(Boolean)) {
+    const matched = wordScore(word, text);
+    if (matched === null) {
+      return null;
+    }
+    score += matched;
+  }
+  return score;
+}
+
+// Best matches first, newest first among equals
+function searchModels(query: string, filter: ModelFilter = {}): ModelInfo[] {
+  return getModelList()
+    .filter((model) => matchesFilter(model, filter))
+    .map((model) => ({ model, score: matchScore(query, model) }))
+    .filter(({ score }) => score !== null)
+    .sort((a, b) => b.score! - a.score! || b.model.created - a.model.created)
+    .map(({ model }) => model);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Ids close to a mistyped one, compared with and without the part before
+// the slash so "gpt-4o" suggests "openai/gpt-4o"
+function suggestModels(modelId: string): string[] {
+  const wanted = modelId.toLowerCase();
+  const close = getModelList()
+    .map((model) => {
+      const id = model.id.toLowerCase();
+      return {
+        id: model.id,
+        distance: Math.min(
+          editDistance(wanted, id),
+          editDistance(wanted, id.slice(id.indexOf("/") + 1))
+        ),
+      };
+    })
+    .filter(({ distance }) => distance <= Math.max(2, wanted.length / 4))
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ id }) => id);
+  const suggestions =
+    close.length > 0 ? close : searchModels(modelId).map((model) => model.id);
+  return [...new Set(suggestions)].slice(0, SUGGESTION_LIMIT);
+}
+
+// For commands given a model id that isn't in the catalog
+export function unknownModelMessage(modelId: string): string {
+  if (getModelList().length === 0) {
+    return "The model list isn't available right now. Please try again later.";
+  }
+  const suggestions = suggestModels(modelId);
+  return suggestions.length > 0
+    ? `Unknown model ${modelId}. Did you mean ${suggestions.join(", ")}?`
+    : `Unknown model ${modelId}. Use /model search <text> to find one.`;
+}
+
+// For models whose price depends on the request, which can't be charged
+export function variablePriceMessage(modelId: string): string {
+  return `${modelId} has no fixed price, so it can't be used here. Pick another model with /model.`;
+}
+
+function formatPrice(price: number): string {
+  if (price < 0) {
+    return "varies";
+  }
+  if (price === 0) {
+    return "free";
+  }
+  return `$${price < 1 ? price.toFixed(3) : price.toFixed(2)}`;
+}
+
+function formatContext(tokens: number | null): string {
+  if (!tokens) {
+    return "?";
+  }
+  return tokens >= 1_000_000
+    ? `${+(tokens / 1_000_000).toFixed(1)}M`
+    : `${Math.round(tokens / 1000)}k`;
+}
+
+// One model per line: id, prices and context window, with the selected
+// model highlighted and favorites starred
+function formatModelLines(
+  session: ClientSession,
+  models: ModelInfo[],
+  favorites: Set<string>
+): string {
+  const prices = models.map((model) => {
+    const price = pricePerMillion(model);
+    return `${formatPrice(price.prompt)}/${formatPrice(price.completion)}`;
+  });
+  const idWidth = Math.min(
+    MAX_ID_COLUMN,
+    Math.max(...models.map((model) => model.id.length))
+  );
+  const priceWidth = Math.max(...prices.map((price) => price.length));
+  return models
+    .map((model, i) => {
+      const line = `${model.id.padEnd(idWidth)}  ${prices[i].padEnd(
+        priceWidth
+      )}  ${formatContext(model.context_length)}${
+        favorites.has(model.id) ? " *" : ""
+      }`;
+      return model.id === session.model
+        ? `\x1b[1m\x1b[35m${line} (current)\x1b[0m`
+        : line;
+    })
+    .join("\n");
+}
+
+const COLUMNS_NOTE =
+  "Prices are prompt/completion in USD per million tokens, then the context window. * marks your favorites.";
+
+async function loadFavorites(session: ClientSession): Promise<Set<string>> {
+  if (!isLoggedIn(session)) {
+    return new Set();
+  }
+  const rows = await sql<{ model_id: string }[]>`
+    SELECT model_id FROM favorite_models
+    WHERE account_id = ${session.userId}
+    ORDER BY created_at
+  `;
+  return new Set(rows.map((row) => row.model_id));
+}
+
+async function listModels(
+  session: ClientSession,
+  page: number,
+  filter: ModelFilter
+) {
+  const models = getModelList()
+    .filter((model) => matchesFilter(model, filter))
+    .sort((a, b) => b.created - a.created);
+  if (models.length === 0) {
+    session.writeCommandOutput(
+      getModelList().length === 0
+        ? "The model list isn't available right now. Please try again later."
+        : "No models match those filters."
+    );
+    return;
+  }
+
+  const pages = Math.ceil(models.length / PAGE_SIZE);
+  page = Math.max(1, page);
+  if (page > pages) {
+    session.writeCommandOutput(
+      `There is no page ${page}, the last is ${pages}.`
+    );
+    return;
+  }
+
+  const favorites = await loadFavorites(session);
+  const shown = models.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+  let output = `Available models, page ${page} of ${pages} (${
+    models.length
+  } model${models.length === 1 ? "" : "s"}):\n`;
+  output += formatModelLines(session, shown, favorites);
+  output += `\n\n${COLUMNS_NOTE}`;
+  if (page < pages) {
+    output += `\nUse /model ${page + 1} for the next page.`;
+  }
+  session.writeCommandOutput(output);
+}
+
+async function showSearchResults(
+  session: ClientSession,
+  query: string,
+  filter: ModelFilter
+) {
+  const models = searchModels(query, filter);
+  if (models.length === 0) {
+    session.writeCommandOutput(`No models match "${query}".`);
+    return;
+  }
+
+  const favorites = await loadFavorites(session);
+  let output =
+    models.length > SEARCH_LIMIT
+      ? `Best ${SEARCH_LIMIT} of ${models.length} models matching "${query}":\n`
+      : `Models matching "${query}":\n`;
+  output += formatModelLines(session, models.slice(0, SEARCH_LIMIT), favorites);
+  output += `\n\n${COLUMNS_NOTE}`;
+  session.writeCommandOutput(output);
+}
+
+function showModelInfo(session: ClientSession, modelId: string) {
+  const model = findModel(modelId);
+  if (!model) {
+    session.writeCommandOutput(unknownModelMessage(modelId));
+    return;
+  }
+
+  const price = pricePerMillion(model);
+  const tokens = (count: number | null) =>
+    count ? `${count.toLocaleString("en-US")} tokens` : "unknown";
+  let info = `\x1b[1m${model.name}\x1b[0m\n`;
+  info += `Id: ${model.id}\n`;
+  info += `Provider: ${model.provider}\n`;
+  info += `Prompt: ${formatPrice(price.prompt)} per million tokens\n`;
+  info += `Completion: ${formatPrice(price.completion)} per million tokens\n`;
+  info += `Context window: ${tokens(model.context_length)}\n`;
+  info += `Longest completion: ${tokens(model.max_completion_tokens)}\n`;
+  info += `Input: ${model.input_modalities.join(", ")}\n`;
+  info += `Output: ${model.output_modalities.join(", ")}`;
+  if (model.created > 0) {
+    const added = new Date(model.created * 1000).toISOString().slice(0, 10);
+    info += `\nAdded: ${added}`;
+  }
+  if (model.description) {
+    info += `\n\n${model.description}`;
+  }
+  session.writeCommandOutput(info);
+}
+
+export async function selectModel(session: ClientSession, modelId: string) {
+  const model = findModel(modelId);
+  if (!model) {
+    session.writeCommandOutput(unknownModelMessage(modelId));
+    return;
+  }
+  if (!hasFixedPrice(model)) {
+    session.writeCommandOutput(variablePriceMessage(modelId));
+    return;
+  }
+
+  session.model = modelId;
+  if (isLoggedIn(session)) {
+    await sql`
+      UPDATE accounts
+      SET selected_model = ${modelId}
+      WHERE username = ${session.username}
+    `;
+  }
+  session.writeCommandOutput(`Model selected: ${modelId}`);
+}
+
+async function addFavorite(session: ClientSession, modelId: string) {
+  if (!findModel(modelId)) {
+    session.writeCommandOutput(unknownModelMessage(modelId));
+    return;
+  }
+
+  const added = await sql`
+    INSERT INTO favorite_models (account_id, model_id)
+    VALUES (${session.userId}, ${modelId})
+    ON CONFLICT DO NOTHING
+    RETURNING model_id
+  `;
+  session.writeCommandOutput(
+    added.length > 0
+      ? `Added ${modelId} to your favorites.`
+      : `${modelId} is already one of your favorites.`
+  );
+}
+
+async function removeFavorite(session: ClientSession, modelId: string) {
+  const removed = await sql`
+    DELETE FROM favorite_models
+    WHERE account_id = ${session.userId} AND model_id = ${modelId}
+    RETURNING model_id
+  `;
+  session.writeCommandOutput(
+    removed.length > 0
+      ? `Removed ${modelId} from your favorites.`
+      : `${modelId} isn't one of your favorites.`
+  );
+}
+
+async function listFavorites(session: ClientSession) {
+  const favorites = await loadFavorites(session);
+  if (favorites.size === 0) {
+    session.writeCommandOutput(
+      "You have no favorite models yet. Add one with /model fav <model_id>."
+    );
+    return;
+  }
+
+  // Models that left the catalog are still listed, so they can be removed
+  const available = [...favorites].filter((id) => findModel(id));
+  const missing = [...favorites].filter((id) => !findModel(id));
+  let output = "Your favorite models:\n";
+  if (available.length > 0) {
+    output += formatModelLines(
+      session,
+      available.map((id) => ({ ...findModel(id)!, id })),
+      new Set()
+    );
+  }
+  for (const id of missing) {
+    output += `\n${id} (no longer available)`;
+  }
+  output += "\n\nUse /model use <model_id> to switch to one.";
+  session.writeCommandOutput(output);
+}
+
+export async function handleModelCommand(
+  session: ClientSession,
+  args: string[]
+) {
+  const [subcommand, ...subargs] = args;
+
+  const needsLogin = ["fav", "unfav", "favs"];
+  if (needsLogin.includes(subcommand?.toLowerCase()) && !isLoggedIn(session)) {
+    session.writeCommandOutput(
+      "You need to be logged in to keep favorite models. Please use /register or /login first."
+    );
+    return;
+  }
+
+  try {
+    switch (subcommand?.toLowerCase()) {
+      case undefined:
+      case "list": {
+        const parsed = parseFilters(subargs);
+        if (typeof parsed === "string") {
+          session.writeCommandOutput(parsed);
+          return;
+        }
+        if (
+          parsed.rest.length > 1 ||
+          (parsed.rest.length === 1 && !/^\d+$/.test(parsed.rest[0]))
+        ) {
+          session.writeCommandOutput("Usage: /model list [page] [filters]");
+          return;
+        }
+        await listModels(session, Number(parsed.rest[0] ?? 1), parsed.filter);
+        return;
+      }
+
+      case "search": {
+        const parsed = parseFilters(subargs);
+        if (typeof parsed === "string") {
+          session.writeCommandOutput(parsed);
+          return;
+        }
+        if (parsed.rest.length === 0) {
+          session.writeCommandOutput("Usage: /model search <text> [filters]");
+          return;
+        }
+        await showSearchResults(session, parsed.rest.join(" "), parsed.filter);
+        return;
+      }
+
+      case "info":
+        if (subargs.length > 1) {
+          session.writeCommandOutput("Usage: /model info [model_id]");
+          return;
+        }
+        showModelInfo(session, subargs[0] ?? session.model);
+        return;
+
+      case "use":
+        if (subargs.length !== 1) {
+          session.writeCommandOutput("Usage: /model use <model_id>");
+          return;
+        }
+        await selectModel(session, subargs[0]);
+        return;
+
+      case "fav":
+        if (subargs.length > 1) {
+          session.writeCommandOutput("Usage: /model fav [model_id]");
+          return;
+        }
+        await addFavorite(session, subargs[0] ?? session.model);
+        return;
+
+      case "unfav":
+        if (subargs.length !== 1) {
+          session.writeCommandOutput("Usage: /model unfav <model_id>");
+          return;
+        }
+        await removeFavorite(session, subargs[0]);
+        return;
+
+      case "favs":
+        await listFavorites(session);
+        return;
+
+      default:
+        // A page number, filters, or a model id to select
+        if (
+          /^\d+$/.test(subcommand) ||
+          FILTER_OPTIONS.includes(subcommand.toLowerCase())
+        ) {
+          await handleModelCommand(session, ["list", ...args]);
+        } else if (args.length === 1) {
+          await selectModel(session, subcommand);
+        } else {
+          session.writeCommandOutput("Usage:\n" + MODEL_USAGE);
+        }
+    }
+  } catch (error) {
+    console.error("Failed to run model command:", error);
+    session.writeCommandOutput(
+      `Model command failed. ${(error as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { ChatMessage, ModelInfo, Usage } from "./providers";
+
+export const PROFIT_RATE = 1.5; // 50% margin
+
+// Completion budget when the catalog doesn't say what a model can produce
+const DEFAULT_MAX_COMPLETION_TOKENS = 4096;
+
+// Below this there is no point in starting a request
+export const MIN_COMPLETION_TOKENS = 32;
+
+// Our token estimate is approximate, reserve a bit more than it says
+const PROMPT_ESTIMATE_MARGIN = 1.1;
+
+// Ask before running requests that may cost more than this (in USD)
+export const CONFIRM_COST_THRESHOLD = Number(
+  process.env.CONFIRM_COST_THRESHOLD ?? 0.05
+);
+
+export interface CostEstimate {
+  promptTokens: number;
+  maxTokens: number;
+  promptCost: number;
+  worstCaseCost: number;
+  // max_tokens was lowered so the balance covers the worst case
+  limitedByBalance: boolean;
+}
+
+// About four characters per token, plus per-message framing
+export function estimatePromptTokens(messages: ChatMessage[]): number {
+  const tokens = messages.reduce(
+    (total, msg) => total + Math.ceil(msg.content.length / 4) + 4,
+    0
+  );
+  return Math.ceil(tokens * PROMPT_ESTIMATE_MARGIN);
+}
+
+// How many real prompt tokens each model counts per estimated one, learned
+// from the usage providers report
+const tokenRatios = new Map<string, number>();
+
+// Prompt tokens for a model, the estimate corrected by what the model
+// reported for earlier prompts
+export function countTokens(modelId: string, messages: ChatMessage[]): number {
+  return Math.ceil(
+    estimatePromptTokens(messages) * (tokenRatios.get(modelId) ?? 1)
+  );
+}
+
+export function recordPromptUsage(
+  modelId: string,
+  messages: ChatMessage[],
+  usage: Usage
+) {
+  const estimated = estimatePromptTokens(messages);
+  if (estimated === 0 || usage.prompt_tokens <= 0) {
+    return;
+  }
+  const ratio = Math.min(4, Math.max(0.25, usage.prompt_tokens / estimated));
+  const previous = tokenRatios.get(modelId);
+  tokenRatios.set(modelId, previous ? (previous + ratio) / 2 : ratio);
+}
+
+// Whether the catalog gives the model a price we can charge. OpenRouter
+// lists "-1" for routers like openrouter/auto, whose price depends on the
+// model they pick.
+export function hasFixedPrice(model: ModelInfo): boolean {
+  return [model.pricing.prompt, model.pricing.completion].every(
+    (price) => parseFloat(price) >= 0
+  );
+}
+
+// Price per token as billed to users, margin included
+export function pricePerToken(model: ModelInfo) {
+  return {
+    prompt: parseFloat(model.pricing.prompt) * PROFIT_RATE || 0,
+    completion: parseFloat(model.pricing.completion) * PROFIT_RATE || 0,
+  };
+}
+
+// What we charge for a request, margin included
+export function calculateCost(model: ModelInfo, usage: Usage): number {
+  const price = pricePerToken(model);
+  return (
+    price.prompt * usage.prompt_tokens +
+    price.completion * usage.completion_tokens
+  );
+}
+
+// Estimate the prompt cost and cap the completion to what the balance can
+// pay for. Returns null when even the prompt alone is not affordable, or
+// the model has no fixed price.
+export function estimateRequestCost(
+  model: ModelInfo,
+  messages: ChatMessage[],
+  balance: number
+): CostEstimate | null {
+  if (!hasFixedPrice(model)) {
+    return null;
+  }
+  const price = pricePerToken(model);
+  const promptTokens = countTokens(model.id, messages);
+  const promptCost = promptTokens * price.prompt;
+  if (promptCost >= balance) {
+    return null;
+  }
+
+  const modelMaxTokens =
+    model.max_completion_tokens || DEFAULT_MAX_COMPLETION_TOKENS;
+  const affordableTokens =
+    price.completion > 0
+      ? Math.floor((balance - promptCost) / price.completion)
+      : Infinity;
+  const maxTokens = Math.min(modelMaxTokens, affordableTokens);
+  if (maxTokens < MIN_COMPLETION_TOKENS) {
+    return null;
+  }
+
+  return {
+    promptTokens,
+    maxTokens,
+    promptCost,
+    worstCaseCost: promptCost + maxTokens * price.completion,
+    limitedByBalance: maxTokens < modelMaxTokens,
+  };
+}
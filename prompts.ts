@@ -0,0 +1,218 @@
+import { decodeKeys, LineEditor } from "./lineEditor";
+import { ClientSession } from "./types";
+
+// How long a prompt waits for an answer before giving up
+export const PROMPT_TIMEOUT_MS = 2 * 60 * 1000;
+
+export interface PromptOptions {
+  // Give up after this long without an answer, 0 waits forever
+  timeoutMs?: number;
+}
+
+export interface TextPromptOptions extends PromptOptions {
+  // Returns an error to show before asking again, or null if valid
+  validate?: (input: string) => string | null;
+}
+
+type InputHandler = (data: Buffer) => void;
+
+// Hand the session's input to a prompt until it finishes, then give it
+// back to whoever had it. Ctrl+C and timeouts finish with `fallback`.
+function runPrompt<T>(
+  session: ClientSession,
+  options: PromptOptions,
+  fallback: T,
+  start: (finish: (result: T) => void, cancel: () => void) => InputHandler
+): Promise<T> {
+  return new Promise((resolve) => {
+    const previousHandler = session.inputHandler;
+    const timeoutMs = options.timeoutMs ?? PROMPT_TIMEOUT_MS;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let finished = false;
+
+    const finish = (result: T) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      session.inputHandler = previousHandler;
+      resolve(result);
+    };
+    const cancel = () => {
+      session.stream.write("^C\r\n");
+      finish(fallback);
+    };
+
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        // Also shows the cursor again in case the prompt hid it
+        session.stream.write(
+          "\x1b[?25h\r\n\x1b[33mNo answer, giving up.\x1b[0m\r\n"
+        );
+        finish(fallback);
+      }, timeoutMs);
+    }
+    session.inputHandler = start(finish, cancel);
+  });
+}
+
+async function promptLine(
+  session: ClientSession,
+  question: string,
+  options: TextPromptOptions,
+  mask: boolean
+): Promise<string | null> {
+  while (true) {
+    session.stream.write("\r\n");
+    const input = await runPrompt<string | null>(
+      session,
+      options,
+      null,
+      (finish, cancel) => {
+        const editor = new LineEditor({
+          prompt: `${question} `,
+          continuationPrompt: "",
+          singleLine: true,
+          mask,
+          columns: () => session.terminal.cols,
+          write: (data) => session.stream.write(data),
+          onLine: (line) => finish(line.trim()),
+          onClose: cancel,
+          onInterrupt: cancel,
+        });
+        editor.render();
+        return (data) => editor.feed(data);
+      }
+    );
+
+    const error = input !== null && options.validate?.(input);
+    if (!error) {
+      return input;
+    }
+    session.writeCommandOutput(error, false);
+  }
+}
+
+// Ask for a line of text. Returns null if cancelled or timed out.
+export function promptText(
+  session: ClientSession,
+  question: string,
+  options: TextPromptOptions = {}
+): Promise<string | null> {
+  return promptLine(session, question, options, false);
+}
+
+// Like promptText, echoing "*" for each character typed
+export function promptPassword(
+  session: ClientSession,
+  question: string,
+  options: TextPromptOptions = {}
+): Promise<string | null> {
+  return promptLine(session, question, options, true);
+}
+
+// Ask a yes/no question answered with a single key. Anything but "y",
+// including Enter, Ctrl+C and timing out, is a no.
+export function promptConfirm(
+  session: ClientSession,
+  question: string,
+  options: PromptOptions = {}
+): Promise<boolean> {
+  session.stream.write(`\r\n${question} [y/N] `);
+
+  return runPrompt(session, options, false, (finish, cancel) => (data) => {
+    for (const key of decodeKeys(data.toString())) {
+      if (key.name === "ctrl+c" || key.name === "escape") {
+        cancel();
+        return;
+      }
+      if (key.name === "enter") {
+        session.stream.write("\r\n");
+        finish(false);
+        return;
+      }
+      const answer = key.name === "text" ? key.text![0].toLowerCase() : "";
+      if (answer === "y" || answer === "n") {
+        session.stream.write(`${answer}\r\n`);
+        finish(answer === "y");
+        return;
+      }
+    }
+  });
+}
+
+// Let the user pick one of `choices` with the arrow keys and Enter, or by
+// typing its number. Returns the chosen index, or null if cancelled or
+// timed out.
+export function promptSelect(
+  session: ClientSession,
+  question: string,
+  choices: string[],
+  options: PromptOptions = {}
+): Promise<number | null> {
+  let selected = 0;
+
+  const renderChoices = () =>
+    choices
+      .map((choice, index) => {
+        const line = `${index + 1}. ${choice}`;
+        return index === selected
+          ? `\x1b[K\x1b[1m\x1b[35m> ${line}\x1b[0m`
+          : `\x1b[K  ${line}`;
+      })
+      .join("\r\n");
+
+  // Hide the cursor while the menu is up
+  session.stream.write(
+    `\r\n${question} \x1b[2m(↑/↓ and Enter, or 1-${choices.length})\x1b[0m` +
+      `\x1b[?25l\r\n${renderChoices()}`
+  );
+
+  return runPrompt<number | null>(session, options, null, (finish, cancel) => {
+    const done = (result: number | null) => {
+      session.stream.write("\x1b[?25h");
+      if (result === null) {
+        cancel();
+      } else {
+        session.stream.write("\r\n");
+        finish(result);
+      }
+    };
+    const select = (index: number) => {
+      selected = index;
+      const rowsUp = choices.length - 1;
+      session.stream.write(
+        `${rowsUp > 0 ? `\x1b[${rowsUp}A` : ""}\r${renderChoices()}`
+      );
+    };
+
+    return (data) => {
+      for (const key of decodeKeys(data.toString())) {
+        switch (key.name) {
+          case "up":
+          case "ctrl+p":
+            select((selected + choices.length - 1) % choices.length);
+            break;
+          case "down":
+          case "ctrl+n":
+            select((selected + 1) % choices.length);
+            break;
+          case "enter":
+            done(selected);
+            return;
+          case "ctrl+c":
+          case "escape":
+            done(null);
+            return;
+          case "text": {
+            const index = Number(key.text![0]) - 1;
+            if (index >= 0 && index < choices.length) {
+              select(index);
+              done(index);
+              return;
+            }
+          }
+        }
+      }
+    };
+  });
+}
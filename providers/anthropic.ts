@@ -0,0 +1,169 @@
+import Anthropic from "@anthropic-ai/sdk";
+import {
+  ChatChunk,
+  ChatRequest,
+  LLMProvider,
+  ModelInfo,
+  ModelPricing,
+} from "./types";
+
+const DEFAULT_MAX_TOKENS = 4096;
+const CONTEXT_LENGTH = 200000;
+
+// USD per million tokens, by model family (https://www.anthropic.com/pricing).
+// Models matching none of these aren't listed, so they can't be used
+// without being charged.
+const PRICING_PER_MILLION: [RegExp, number, number][] = [
+  [/claude-3-5-haiku/, 0.8, 4],
+  [/claude-3-haiku/, 0.25, 1.25],
+  [/claude-3(-[57])?-sonnet/, 3, 15],
+  [/claude-3-opus/, 15, 75],
+  [/^claude-haiku-4-5-\d{8}$/, 1, 5],
+  [/^claude-sonnet-4-(5-)?\d{8}$/, 3, 15],
+  [/^claude-opus-4-(1-)?\d{8}$/, 15, 75],
+  [/^claude-opus-4-5-\d{8}$/, 5, 25],
+];
+
+function pricingFor(model: string): ModelPricing | null {
+  const match = PRICING_PER_MILLION.find(([pattern]) => pattern.test(model));
+  if (!match) {
+    return null;
+  }
+  return {
+    prompt: String(match[1] / 1_000_000),
+    completion: String(match[2] / 1_000_000),
+  };
+}
+
+// Map our ids to Anthropic's, e.g. "anthropic/claude-3.5-haiku:beta"
+// becomes "claude-3-5-haiku-latest"
+export function toAnthropicModel(modelId: string): string {
+  const model = modelId.replace(/^anthropic\//, "").replace(/:.*$/, "");
+  if (/-\d{8}$/.test(model) || model.endsWith("-latest")) {
+    return model;
+  }
+  return `${model.replace(/\./g, "-")}-latest`;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic";
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  canonicalModelId(modelId: string): string {
+    return `anthropic/${toAnthropicModel(modelId)}`;
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const models: ModelInfo[] = [];
+    const aliases = new Set<string>();
+    // Newest first, so the first model of a family gets its "-latest" alias
+    for await (const model of this.client.models.list()) {
+      const pricing = pricingFor(model.id);
+      if (!pricing) {
+        console.warn(
+          `[anthropic] No pricing known for ${model.id}, not listed`
+        );
+        continue;
+      }
+      const info: ModelInfo = {
+        id: `anthropic/${model.id}`,
+        name: model.display_name,
+        created: Math.floor(new Date(model.created_at).getTime() / 1000),
+        context_length: CONTEXT_LENGTH,
+        max_completion_tokens: /claude-3-5/.test(model.id) ? 8192 : 4096,
+        pricing,
+        provider: this.name,
+        description: null,
+        input_modalities: ["text", "image"],
+        output_modalities: ["text"],
+      };
+      models.push(info);
+
+      const alias = model.id.replace(/-\d{8}$/, "-latest");
+      if (alias !== model.id && !aliases.has(alias)) {
+        aliases.add(alias);
+        models.push({ ...info, id: `anthropic/${alias}` });
+      }
+    }
+    return models;
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<ChatChunk> {
+    // Anthropic takes the system prompt separately from the turns
+    const system = request.messages
+      .filter((msg) => msg.role === "system")
+      .map((msg) => msg.content)
+      .join("\n\n");
+
+    const messages = request.messages
+      .filter((msg) => msg.role !== "system")
+      .map((msg) => ({
+        role: msg.role as "user" | "assistant",
+        content: msg.content,
+      }));
+    // Turns must start with the user, a character's greeting comes first
+    if (messages[0]?.role === "assistant") {
+      messages.unshift({ role: "user", content: "Hello." });
+    }
+
+    const stream = this.client.messages.stream({
+      model: toAnthropicModel(request.model),
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      system: system || undefined,
+      messages,
+      temperature: request.temperature,
+      tools: request.tools?.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+      })),
+    });
+
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let toolCall: { name: string; arguments: string } | null = null;
+
+    for await (const event of stream) {
+      switch (event.type) {
+        case "message_start":
+          promptTokens = event.message.usage.input_tokens;
+          completionTokens = event.message.usage.output_tokens;
+          break;
+        case "content_block_start":
+          if (event.content_block.type === "tool_use") {
+            toolCall = { name: event.content_block.name, arguments: "" };
+          }
+          break;
+        case "content_block_delta":
+          if (event.delta.type === "text_delta") {
+            yield { type: "text", content: event.delta.text };
+          } else if (event.delta.type === "input_json_delta" && toolCall) {
+            toolCall.arguments += event.delta.partial_json;
+          }
+          break;
+        case "content_block_stop":
+          if (toolCall) {
+            yield { type: "tool_call", ...toolCall };
+            toolCall = null;
+          }
+          break;
+        case "message_delta":
+          completionTokens = event.usage.output_tokens;
+          break;
+      }
+    }
+
+    yield {
+      type: "usage",
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,154 @@
+import { AnthropicProvider } from "./anthropic";
+import { LocalProvider } from "./local";
+import { MockProvider } from "./mock";
+import { OpenRouterProvider } from "./openrouter";
+import { LLMProvider, ModelInfo } from "./types";
+import { instrumentProvider } from "../metrics";
+
+export * from "./types";
+
+export const DEFAULT_MODEL =
+  process.env.DEFAULT_MODEL ?? "anthropic/claude-3.5-haiku:beta";
+
+interface Route {
+  prefix: string;
+  provider: string;
+}
+
+const providers = new Map<string, LLMProvider>();
+const routes: Route[] = [];
+let defaultProvider: LLMProvider;
+
+let cachedModelList: ModelInfo[] = [];
+
+// Providers are enabled by their environment variables:
+//   OPENROUTER_API_KEY  - OpenRouter (default when set)
+//   ANTHROPIC_API_KEY   - Anthropic API directly
+//   LOCAL_LLM_BASE_URL  - OpenAI-compatible server, with LOCAL_LLM_API_KEY
+//   MOCK_PROVIDER=1     - deterministic mock, for testing
+// MODEL_ROUTES overrides routing by model id prefix, e.g.
+//   MODEL_ROUTES="anthropic/=anthropic,meta-llama/=local"
+// and DEFAULT_PROVIDER names the provider for ids no route matches.
+function configureProviders() {
+  if (process.env.OPENROUTER_API_KEY) {
+    providers.set(
+      "openrouter",
+      new OpenRouterProvider(process.env.OPENROUTER_API_KEY)
+    );
+  }
+  if (process.env.ANTHROPIC_API_KEY) {
+    providers.set(
+      "anthropic",
+      new AnthropicProvider(process.env.ANTHROPIC_API_KEY)
+    );
+  }
+  if (process.env.LOCAL_LLM_BASE_URL) {
+    providers.set(
+      "local",
+      new LocalProvider(
+        process.env.LOCAL_LLM_BASE_URL,
+        process.env.LOCAL_LLM_API_KEY
+      )
+    );
+  }
+  if (process.env.MOCK_PROVIDER === "1") {
+    providers.set("mock", new MockProvider());
+  }
+  // Never fall back to canned mock replies that are still charged for
+  if (providers.size === 0) {
+    console.error(
+      "No LLM provider configured. Set OPENROUTER_API_KEY, ANTHROPIC_API_KEY, LOCAL_LLM_BASE_URL or MOCK_PROVIDER=1."
+    );
+    process.exit(1);
+  }
+  for (const [name, provider] of providers) {
+    providers.set(name, instrumentProvider(provider));
+  }
+
+  for (const rule of (process.env.MODEL_ROUTES ?? "").split(",")) {
+    const [prefix, provider] = rule.split("=").map((part) => part.trim());
+    if (!prefix || !provider) continue;
+    if (!providers.has(provider)) {
+      console.warn(`Ignoring route ${prefix} to unconfigured ${provider}`);
+      continue;
+    }
+    routes.push({ prefix, provider });
+  }
+
+  routes.push({ prefix: "local/", provider: "local" });
+  routes.push({ prefix: "mock/", provider: "mock" });
+  // Without OpenRouter, Claude ids go straight to Anthropic
+  if (!providers.has("openrouter")) {
+    routes.push({ prefix: "anthropic/", provider: "anthropic" });
+  }
+
+  const preferred = [
+    process.env.DEFAULT_PROVIDER,
+    "openrouter",
+    "anthropic",
+    "local",
+    "mock",
+  ].find((name) => name && providers.has(name));
+  defaultProvider = providers.get(preferred!)!;
+
+  console.log(
+    `LLM providers: ${[...providers.keys()].join(", ")} (default: ${
+      defaultProvider.name
+    })`
+  );
+}
+
+configureProviders();
+
+export function getProviderForModel(modelId: string): LLMProvider {
+  const route = routes.find(
+    (route) => modelId.startsWith(route.prefix) && providers.has(route.provider)
+  );
+  return route ? providers.get(route.provider)! : defaultProvider;
+}
+
+// A provider that can't be reached keeps the models it had, so one outage
+// doesn't take its models away. Returns whether any provider answered.
+export async function fetchAndCacheModelList(): Promise<boolean> {
+  const models: ModelInfo[] = [];
+  let fetched = false;
+  for (const provider of providers.values()) {
+    try {
+      models.push(...(await provider.listModels()));
+      fetched = true;
+    } catch (error) {
+      console.error(`Error listing models from ${provider.name}:`, error);
+      models.push(
+        ...cachedModelList.filter((model) => model.provider === provider.name)
+      );
+    }
+  }
+
+  if (models.length > 0) {
+    cachedModelList = models;
+    console.log(`Model list cached successfully (${models.length} models)`);
+  }
+  return fetched;
+}
+
+// Start from a catalog saved earlier. Models of providers that are no
+// longer configured are left out.
+export function restoreModelList(models: ModelInfo[]) {
+  cachedModelList = models.filter((model) => providers.has(model.provider));
+  console.log(`Model list restored (${cachedModelList.length} models)`);
+}
+
+export function getModelList(): ModelInfo[] {
+  return cachedModelList;
+}
+
+export function findModel(modelId: string): ModelInfo | undefined {
+  const model = cachedModelList.find((model) => model.id === modelId);
+  if (model) {
+    return model;
+  }
+
+  const canonicalId =
+    getProviderForModel(modelId).canonicalModelId?.(modelId) ?? modelId;
+  return cachedModelList.find((model) => model.id === canonicalId);
+}
@@ -0,0 +1,15 @@
+import { OpenAICompatibleProvider } from "./openaiCompatible";
+
+// Self-hosted OpenAI-compatible endpoint such as Ollama
+// (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1).
+// Models are exposed as "local/<model>" and are free to use.
+export class LocalProvider extends OpenAICompatibleProvider {
+  constructor(baseURL: string, apiKey?: string) {
+    super({
+      name: "local",
+      baseURL,
+      apiKey,
+      modelPrefix: "local/",
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import { estimateTokens } from "./openaiCompatible";
+import { ChatChunk, ChatRequest, LLMProvider, ModelInfo } from "./types";
+
+// Deterministic provider for tests and offline development. "mock/echo"
+// answers with the last user message; a message naming one of the request's
+// tools (e.g. "win_game") makes the model call that tool.
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+
+  async listModels(): Promise<ModelInfo[]> {
+    return [
+      {
+        id: "mock/echo",
+        name: "Mock echo model",
+        created: 0,
+        context_length: 8192,
+        max_completion_tokens: 1024,
+        // Non-zero so credit accounting can be exercised
+        pricing: { prompt: "0.000001", completion: "0.000002" },
+        provider: this.name,
+        description: "Replies with the last message it was sent",
+        input_modalities: ["text"],
+        output_modalities: ["text"],
+      },
+    ];
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<ChatChunk> {
+    const lastUserMessage =
+      [...request.messages].reverse().find((msg) => msg.role === "user")
+        ?.content ?? "";
+
+    let reply = `Mock reply to: ${lastUserMessage}`;
+    if (request.maxTokens !== undefined) {
+      reply = reply.slice(0, request.maxTokens * 4);
+    }
+
+    for (const word of reply.split(/(?<= )/)) {
+      yield { type: "text", content: word };
+    }
+
+    for (const tool of request.tools ?? []) {
+      if (lastUserMessage.includes(tool.name)) {
+        yield { type: "tool_call", name: tool.name, arguments: "{}" };
+      }
+    }
+
+    const promptTokens = estimateTokens(
+      request.messages.map((msg) => msg.content).join("\n")
+    );
+    const completionTokens = estimateTokens(reply);
+    yield {
+      type: "usage",
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import OpenAI from "openai";
+import {
+  ChatChunk,
+  ChatRequest,
+  LLMProvider,
+  ModelInfo,
+  ModelPricing,
+  Usage,
+} from "./types";
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  baseURL: string;
+  apiKey?: string;
+  defaultHeaders?: Record<string, string>;
+  // Prefix our model ids carry in front of the endpoint's own ids, e.g. "local/"
+  modelPrefix?: string;
+}
+
+// A model as /models lists it. OpenAI only sends the id and created,
+// OpenRouter adds the rest.
+interface EndpointModel {
+  id: string;
+  name?: string;
+  created?: number;
+  description?: string | null;
+  context_length?: number | null;
+  pricing?: ModelPricing;
+  top_provider?: { max_completion_tokens?: number | null };
+  architecture?: { input_modalities?: string[]; output_modalities?: string[] };
+}
+
+// Rough token count for endpoints that don't report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Works with any server speaking the OpenAI chat completions API
+// (OpenRouter, Ollama, llama.cpp, vLLM, LM Studio...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  protected client: OpenAI;
+  protected modelPrefix: string;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.modelPrefix = options.modelPrefix ?? "";
+    this.client = new OpenAI({
+      baseURL: options.baseURL,
+      // The SDK refuses to start without a key, local servers ignore it
+      apiKey: options.apiKey || "not-needed",
+      defaultHeaders: options.defaultHeaders,
+    });
+  }
+
+  protected toEndpointModel(modelId: string): string {
+    return this.modelPrefix && modelId.startsWith(this.modelPrefix)
+      ? modelId.slice(this.modelPrefix.length)
+      : modelId;
+  }
+
+  protected toModelInfo(model: EndpointModel): ModelInfo {
+    return {
+      ...model,
+      id: this.modelPrefix + model.id,
+      name: model.name ?? model.id,
+      created: model.created ?? 0,
+      context_length: model.context_length ?? null,
+      max_completion_tokens: model.top_provider?.max_completion_tokens ?? null,
+      pricing: model.pricing ?? { prompt: "0", completion: "0" },
+      provider: this.name,
+      description: model.description ?? null,
+      input_modalities: model.architecture?.input_modalities ?? ["text"],
+      output_modalities: model.architecture?.output_modalities ?? ["text"],
+    };
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const response = await this.client.models.list();
+    return response.data.map((model: EndpointModel) => this.toModelInfo(model));
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<ChatChunk> {
+    const stream = await this.client.chat.completions.create({
+      model: this.toEndpointModel(request.model),
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      tools: request.tools?.map((tool) => ({
+        type: "function" as const,
+        function: tool,
+      })),
+      tool_choice: request.tools ? "auto" : undefined,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let completion = "";
+    let usage: Usage | null = null;
+    const toolCalls: { name: string; arguments: string }[] = [];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+
+      if (delta?.content) {
+        completion += delta.content;
+        yield { type: "text", content: delta.content };
+      }
+
+      // Tool calls arrive in fragments keyed by index
+      for (const call of delta?.tool_calls ?? []) {
+        const toolCall = (toolCalls[call.index] ??= {
+          name: "",
+          arguments: "",
+        });
+        toolCall.name += call.function?.name ?? "";
+        toolCall.arguments += call.function?.arguments ?? "";
+      }
+
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
+
+    for (const toolCall of toolCalls) {
+      if (toolCall?.name) {
+        yield { type: "tool_call", ...toolCall };
+      }
+    }
+
+    if (!usage) {
+      const promptTokens = estimateTokens(
+        request.messages.map((msg) => msg.content).join("\n")
+      );
+      const completionTokens = estimateTokens(completion);
+      usage = {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      };
+      console.warn(
+        `[${this.name}] No usage reported for ${request.model}, using estimate`
+      );
+    }
+    yield { type: "usage", usage };
+  }
+}
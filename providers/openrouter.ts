@@ -0,0 +1,15 @@
+import { OpenAICompatibleProvider } from "./openaiCompatible";
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  constructor(apiKey: string) {
+    super({
+      name: "openrouter",
+      baseURL: "https://openrouter.ai/api/v1",
+      apiKey,
+      defaultHeaders: {
+        "HTTP-Referer": "Question.sh", // Replace with your actual site URL
+        "X-Title": "Question.sh", // Replace with your app name
+      },
+    });
+  }
+}
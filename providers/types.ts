@@ -0,0 +1,59 @@
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface Usage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// Prices are USD per token, as strings, the way OpenRouter reports them
+export interface ModelPricing {
+  prompt: string;
+  completion: string;
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  created: number;
+  context_length: number | null;
+  max_completion_tokens: number | null;
+  pricing: ModelPricing;
+  provider: string;
+  description: string | null;
+  // What the model takes and produces, e.g. ["text", "image"]
+  input_modalities: string[];
+  output_modalities: string[];
+  [key: string]: unknown;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ToolDefinition[];
+}
+
+export type ChatChunk =
+  | { type: "text"; content: string }
+  | { type: "tool_call"; name: string; arguments: string }
+  | { type: "usage"; usage: Usage };
+
+export interface LLMProvider {
+  readonly name: string;
+  // Yields text as it arrives, then any tool calls, then a single usage chunk
+  streamChat(request: ChatRequest): AsyncIterable<ChatChunk>;
+  listModels(): Promise<ModelInfo[]>;
+  // Catalog id for model ids the provider accepts under another name
+  canonicalModelId?(modelId: string): string;
+}
@@ -0,0 +1,238 @@
+import cron from "node-cron";
+import { ClientSession } from "./types";
+
+// Limits are set with environment variables:
+//   CONNECTIONS_PER_MINUTE  - new connections per IP
+//   SESSIONS_PER_ACCOUNT    - sessions an account can have open at once
+//   PROMPTS_PER_MINUTE      - prompts and room messages per account, or
+//                             per IP for guests
+//   BAN_AFTER_VIOLATIONS    - limits hit within BAN_WINDOW_MINUTES before
+//                             the IP is banned for BAN_MINUTES
+// Failed logins count as violations too.
+const CONNECTIONS_PER_MINUTE = Number(process.env.CONNECTIONS_PER_MINUTE ?? 10);
+const SESSIONS_PER_ACCOUNT = Number(process.env.SESSIONS_PER_ACCOUNT ?? 3);
+const PROMPTS_PER_MINUTE = Number(process.env.PROMPTS_PER_MINUTE ?? 10);
+const BAN_AFTER_VIOLATIONS = Number(process.env.BAN_AFTER_VIOLATIONS ?? 5);
+const BAN_WINDOW_MINUTES = Number(process.env.BAN_WINDOW_MINUTES ?? 10);
+const BAN_MINUTES = Number(process.env.BAN_MINUTES ?? 15);
+
+const MINUTE_MS = 60 * 1000;
+
+// Allows `perMinute` actions a minute on average, and bursts of up to as
+// many at once after a quiet spell
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  private perMinute: number;
+
+  constructor(perMinute: number, now: number = Date.now()) {
+    this.perMinute = perMinute;
+    this.tokens = perMinute;
+    this.updatedAt = now;
+  }
+
+  // Take a token. Returns 0 if there was one, otherwise how many
+  // milliseconds until there is.
+  take(now: number = Date.now()): number {
+    this.refill(now);
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) * MINUTE_MS) / this.perMinute);
+  }
+
+  isFull(now: number = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.perMinute;
+  }
+
+  private refill(now: number) {
+    const elapsed = now - this.updatedAt;
+    this.tokens = Math.min(
+      this.perMinute,
+      this.tokens + (elapsed * this.perMinute) / MINUTE_MS
+    );
+    this.updatedAt = now;
+  }
+}
+
+const connectionBuckets = new Map<string, TokenBucket>();
+const promptBuckets = new Map<string, TokenBucket>();
+const accountSessions = new Map<string, Set<string>>();
+// Times each IP hit a limit, within the ban window
+const violations = new Map<string, number[]>();
+// When each banned IP is let back in
+const bans = new Map<string, number>();
+
+function takeToken(
+  buckets: Map<string, TokenBucket>,
+  key: string,
+  perMinute: number,
+  now: number
+): number {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(perMinute, now);
+    buckets.set(key, bucket);
+  }
+  return bucket.take(now);
+}
+
+// "in 40 seconds", "in 3 minutes"
+export function describeRetry(ms: number): string {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  if (seconds < 90) {
+    return `in ${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  return `in ${Math.ceil(seconds / 60)} minutes`;
+}
+
+function banMessage(clientIP: string, now: number): string | null {
+  const until = bans.get(clientIP);
+  if (until === undefined) {
+    return null;
+  }
+  if (until <= now) {
+    bans.delete(clientIP);
+    return null;
+  }
+  const at = new Date(until).toISOString().slice(11, 16);
+  return `Your address is blocked for too many requests. Try again ${describeRetry(
+    until - now
+  )} (${at} UTC).`;
+}
+
+// Note that an IP went over a limit, and ban it once that happens too often
+export function recordViolation(clientIP: string, now: number = Date.now()) {
+  const since = now - BAN_WINDOW_MINUTES * MINUTE_MS;
+  const recent = (violations.get(clientIP) ?? []).filter(
+    (time) => time > since
+  );
+  recent.push(now);
+
+  if (recent.length >= BAN_AFTER_VIOLATIONS) {
+    violations.delete(clientIP);
+    bans.set(clientIP, now + BAN_MINUTES * MINUTE_MS);
+    console.log(`Banned ${clientIP} for ${BAN_MINUTES} minutes`);
+  } else {
+    violations.set(clientIP, recent);
+  }
+}
+
+// Count a new connection from an IP. Returns why it is refused, or null
+// if it may go ahead.
+export function checkConnection(
+  clientIP: string,
+  now: number = Date.now()
+): string | null {
+  const banned = banMessage(clientIP, now);
+  if (banned) {
+    return banned;
+  }
+
+  const wait = takeToken(
+    connectionBuckets,
+    clientIP,
+    CONNECTIONS_PER_MINUTE,
+    now
+  );
+  if (wait > 0) {
+    recordViolation(clientIP, now);
+    return `Too many connections from your address. Try again ${describeRetry(
+      wait
+    )}.`;
+  }
+  return null;
+}
+
+// Count a prompt sent to a model, against the account or, for guests
+// (accountId null), the IP. Returns why it is refused, or null.
+export function checkPrompt(
+  accountId: string | null,
+  clientIP: string,
+  now: number = Date.now()
+): string | null {
+  const banned = banMessage(clientIP, now);
+  if (banned) {
+    return banned;
+  }
+
+  const key = accountId ? `account:${accountId}` : `ip:${clientIP}`;
+  const wait = takeToken(promptBuckets, key, PROMPTS_PER_MINUTE, now);
+  if (wait > 0) {
+    recordViolation(clientIP, now);
+    return `You are sending prompts too quickly. Try again ${describeRetry(
+      wait
+    )}.`;
+  }
+  return null;
+}
+
+// Count a prompt from a session, telling the user when it's over the
+// limit. Returns whether it may go ahead.
+export function allowPrompt(session: ClientSession): boolean {
+  const accountId =
+    session.username && session.username !== "guest" ? session.userId : null;
+  const limited = checkPrompt(accountId, session.clientIP);
+  if (limited) {
+    session.writeCommandOutput(limited);
+    return false;
+  }
+  session.lastRequest = Date.now();
+  session.requestCount++;
+  return true;
+}
+
+// Count a session logged in to an account. Returns why it is refused if
+// the account has too many open, or null.
+export function claimSession(
+  accountId: string,
+  sessionId: string
+): string | null {
+  const open = accountSessions.get(accountId) ?? new Set<string>();
+  if (!open.has(sessionId) && open.size >= SESSIONS_PER_ACCOUNT) {
+    return `Your account already has ${open.size} sessions open. Try again once one of them is closed.`;
+  }
+  open.add(sessionId);
+  accountSessions.set(accountId, open);
+  return null;
+}
+
+export function releaseSession(accountId: string, sessionId: string) {
+  const open = accountSessions.get(accountId);
+  if (!open) {
+    return;
+  }
+  open.delete(sessionId);
+  if (open.size === 0) {
+    accountSessions.delete(accountId);
+  }
+}
+
+// Forget buckets that have filled back up and bans that ran out, so the
+// maps don't grow with every address that ever connected
+export function pruneRateLimits(now: number = Date.now()) {
+  for (const buckets of [connectionBuckets, promptBuckets]) {
+    for (const [key, bucket] of buckets) {
+      if (bucket.isFull(now)) {
+        buckets.delete(key);
+      }
+    }
+  }
+  const since = now - BAN_WINDOW_MINUTES * MINUTE_MS;
+  for (const [clientIP, times] of violations) {
+    if (times.every((time) => time <= since)) {
+      violations.delete(clientIP);
+    }
+  }
+  for (const [clientIP, until] of bans) {
+    if (until <= now) {
+      bans.delete(clientIP);
+    }
+  }
+}
+
+export function scheduleRateLimitCleanup() {
+  cron.schedule("*/5 * * * *", () => pruneRateLimits());
+}
@@ -0,0 +1,600 @@
+import bcrypt from "bcrypt";
+import { ClientSession } from "./types";
+import {
+  ChatMessage,
+  findModel,
+  getProviderForModel,
+  ModelInfo,
+  Usage,
+} from "./providers";
+import {
+  calculateCost,
+  CONFIRM_COST_THRESHOLD,
+  countTokens,
+  estimateRequestCost,
+  hasFixedPrice,
+  recordPromptUsage,
+} from "./pricing";
+import {
+  holdCredits,
+  Payer,
+  refreshBalance,
+  releaseHold,
+  settleHold,
+} from "./credits";
+import { createOutputRenderer } from "./markdown";
+import { promptConfirm, promptPassword } from "./prompts";
+import { allowPrompt } from "./rateLimits";
+import { promptBudget } from "./context";
+
+// Messages kept per room, replayed to people who join and sent to the
+// model as the conversation
+const SCROLLBACK_LIMIT = 100;
+const MAX_MESSAGE_LENGTH = 4000;
+const ROOM_NAME_PATTERN = /^[a-z0-9_-]{2,32}$/;
+
+// A message mentioning this gets an answer from the model
+const AI_MENTION_PATTERN = /(^|\s)@ai\b/i;
+
+const ROOM_SYSTEM_PROMPT =
+  "You are an AI assistant taking part in a group chat on question.sh, an SSH service. Each user message starts with the name of the person who wrote it. Answer when addressed with @ai, keep responses concise and use simple formatting.";
+
+const NAME_COLORS = [
+  "\x1b[32m",
+  "\x1b[33m",
+  "\x1b[34m",
+  "\x1b[35m",
+  "\x1b[36m",
+];
+const AI_COLOR = "\x1b[1m\x1b[35m";
+const DIM = "\x1b[2m";
+const RESET = "\x1b[0m";
+
+interface RoomMessage {
+  kind: "message" | "ai" | "notice";
+  author: string;
+  content: string;
+  time: Date;
+}
+
+interface Room {
+  name: string;
+  passwordHash: string | null;
+  members: Set<ClientSession>;
+  scrollback: RoomMessage[];
+  // Set while the model is answering, one turn at a time
+  aiTurn: boolean;
+}
+
+const rooms = new Map<string, Room>();
+
+export const ROOM_USAGE =
+  "  /room create <name>  - Create a room and join it, asks for an optional password\n" +
+  "  /room join <name>    - Join a room\n" +
+  "  /room leave          - Leave the room you are in\n" +
+  "  /room who            - List the people in your room\n" +
+  "  /room list           - List open rooms\n" +
+  "In a room, mention @ai to have the model answer. You pay for its answer.";
+
+export async function handleRoomCommand(
+  session: ClientSession,
+  args: string[]
+) {
+  const [subcommand, ...subargs] = args;
+
+  switch (subcommand?.toLowerCase()) {
+    case "create":
+      // Passwords are asked for, so they stay out of the command history
+      if (subargs.length !== 1) {
+        session.writeCommandOutput("Usage: /room create <name>");
+        return;
+      }
+      await createRoom(session, subargs[0].toLowerCase());
+      return;
+
+    case "join":
+      if (subargs.length !== 1) {
+        session.writeCommandOutput("Usage: /room join <name>");
+        return;
+      }
+      await joinRoom(session, subargs[0].toLowerCase());
+      return;
+
+    case "leave": {
+      const name = session.room;
+      if (!name) {
+        session.writeCommandOutput("You are not in a room.");
+        return;
+      }
+      leaveRoom(session);
+      session.writeCommandOutput(`You left ${name}.`);
+      return;
+    }
+
+    case "who":
+      showMembers(session);
+      return;
+
+    case "list":
+      listRooms(session);
+      return;
+
+    default:
+      session.writeCommandOutput("Usage:\n" + ROOM_USAGE);
+  }
+}
+
+async function createRoom(session: ClientSession, name: string) {
+  if (!session.username || session.username === "guest") {
+    session.writeCommandOutput(
+      "You need to be logged in to use rooms. Please use /login or /register first."
+    );
+    return;
+  }
+  if (!ROOM_NAME_PATTERN.test(name)) {
+    session.writeCommandOutput(
+      "Room names are 2 to 32 letters, digits, dashes or underscores."
+    );
+    return;
+  }
+  if (rooms.has(name)) {
+    session.writeCommandOutput(
+      `There is already a room called ${name}. Use /room join ${name}.`
+    );
+    return;
+  }
+
+  const password = await promptPassword(
+    session,
+    "Room password (empty for an open room):"
+  );
+  if (password === null) {
+    session.writeCommandOutput("Room not created.");
+    return;
+  }
+
+  try {
+    const room: Room = {
+      name,
+      passwordHash: password ? await bcrypt.hash(password, 10) : null,
+      members: new Set(),
+      scrollback: [],
+      aiTurn: false,
+    };
+    // Someone else may have taken the name while hashing
+    if (rooms.has(name)) {
+      session.writeCommandOutput(`There is already a room called ${name}.`);
+      return;
+    }
+    rooms.set(name, room);
+    console.log(`Room ${name} created by ${session.username}`);
+    enterRoom(session, room);
+  } catch (error) {
+    console.error("Failed to create room:", error);
+    session.writeCommandOutput("Failed to create the room. Please try again.");
+  }
+}
+
+async function joinRoom(session: ClientSession, name: string) {
+  if (!session.username || session.username === "guest") {
+    session.writeCommandOutput(
+      "You need to be logged in to use rooms. Please use /login or /register first."
+    );
+    return;
+  }
+
+  const room = rooms.get(name);
+  if (!room) {
+    session.writeCommandOutput(
+      `There is no room called ${name}. Use /room create ${name} to start one.`
+    );
+    return;
+  }
+  if (session.room === name) {
+    session.writeCommandOutput(`You are already in ${name}.`);
+    return;
+  }
+
+  try {
+    if (room.passwordHash) {
+      const password = await promptPassword(session, `Password for ${name}:`);
+      if (password === null) {
+        session.writeCommandOutput("Not joined.");
+        return;
+      }
+      if (!(await bcrypt.compare(password, room.passwordHash))) {
+        session.writeCommandOutput("Wrong password.");
+        return;
+      }
+      // The room may have closed while the password was typed
+      if (rooms.get(name) !== room) {
+        session.writeCommandOutput(`${name} has closed.`);
+        return;
+      }
+    }
+    enterRoom(session, room);
+  } catch (error) {
+    console.error("Failed to join room:", error);
+    session.writeCommandOutput("Failed to join the room. Please try again.");
+  }
+}
+
+function enterRoom(session: ClientSession, room: Room) {
+  leaveRoom(session);
+  session.room = room.name;
+  room.members.add(session);
+
+  let output = `You joined ${room.name}. Messages you send go to everyone here, mention @ai to ask the model. /room leave to go back.`;
+  if (room.scrollback.length > 0) {
+    output += `\n\n${DIM}Earlier messages:${RESET}\n`;
+    output += room.scrollback.map(formatMessage).join("\n");
+  }
+  session.writeCommandOutput(output);
+
+  postMessage(
+    room,
+    {
+      kind: "notice",
+      author: session.username!,
+      content: `${session.username} joined`,
+      time: new Date(),
+    },
+    session
+  );
+}
+
+// Take a session out of its room, e.g. when it disconnects. Empty rooms
+// are closed.
+export function leaveRoom(session: ClientSession) {
+  const room = session.room ? rooms.get(session.room) : undefined;
+  session.room = null;
+  if (!room || !room.members.delete(session)) {
+    return;
+  }
+
+  if (room.members.size === 0) {
+    rooms.delete(room.name);
+    console.log(`Room ${room.name} closed`);
+    return;
+  }
+  postMessage(room, {
+    kind: "notice",
+    author: session.username!,
+    content: `${session.username} left`,
+    time: new Date(),
+  });
+}
+
+function showMembers(session: ClientSession) {
+  const room = session.room ? rooms.get(session.room) : undefined;
+  if (!room) {
+    session.writeCommandOutput("You are not in a room.");
+    return;
+  }
+
+  const names = [...room.members].map((member) =>
+    member === session ? `${member.username} (you)` : member.username
+  );
+  session.writeCommandOutput(
+    `In ${room.name} (${names.length}):\n` +
+      names.map((name) => `  ${name}`).join("\n")
+  );
+}
+
+function listRooms(session: ClientSession) {
+  if (rooms.size === 0) {
+    session.writeCommandOutput(
+      "No rooms are open. Use /room create <name> to start one."
+    );
+    return;
+  }
+
+  let roomList = "Open rooms:\n";
+  for (const room of rooms.values()) {
+    const people = room.members.size === 1 ? "person" : "people";
+    roomList += `  ${room.name}  ${room.members.size} ${people}${
+      room.passwordHash ? "  (password)" : ""
+    }\n`;
+  }
+  session.writeCommandOutput(roomList);
+}
+
+// Something typed by a member of a room, sent to everyone in it
+export async function sendRoomMessage(session: ClientSession, text: string) {
+  const room = session.room ? rooms.get(session.room) : undefined;
+  if (!room) {
+    session.room = null;
+    session.writeCommandOutput("The room you were in is closed.");
+    return;
+  }
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    session.writeCommandOutput(
+      `Messages are limited to ${MAX_MESSAGE_LENGTH} characters.`
+    );
+    return;
+  }
+  // Chat counts against the same limit as prompts, @ai mentions included,
+  // so no one can flood the members' terminals
+  if (!allowPrompt(session)) {
+    return;
+  }
+
+  // The sender already sees what they typed
+  postMessage(
+    room,
+    {
+      kind: "message",
+      author: session.username!,
+      content: text,
+      time: new Date(),
+    },
+    session
+  );
+
+  if (AI_MENTION_PATTERN.test(text)) {
+    await runAiTurn(room, session);
+  } else {
+    session.showPrompt();
+  }
+}
+
+function addToScrollback(room: Room, message: RoomMessage) {
+  room.scrollback.push(message);
+  if (room.scrollback.length > SCROLLBACK_LIMIT) {
+    room.scrollback.shift();
+  }
+}
+
+// Add a message to the scrollback and show it to the members
+function postMessage(
+  room: Room,
+  message: RoomMessage,
+  sender: ClientSession | null = null
+) {
+  addToScrollback(room, message);
+
+  const formatted = formatMessage(message);
+  for (const member of room.members) {
+    if (member !== sender) {
+      member.writeNotification(formatted);
+    }
+  }
+}
+
+function formatMessage(message: RoomMessage): string {
+  const time = message.time.toISOString().slice(11, 16);
+  const prefix = `${DIM}${time}${RESET} `;
+  switch (message.kind) {
+    case "notice":
+      return `${prefix}${DIM}* ${message.content}${RESET}`;
+    case "ai":
+      return `${prefix}${AI_COLOR}ai${RESET}: ${message.content}`;
+    default:
+      return `${prefix}${nameColor(message.author)}${message.author}${RESET}: ${
+        message.content
+      }`;
+  }
+}
+
+// The same color for a name every time
+function nameColor(name: string): string {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return NAME_COLORS[hash % NAME_COLORS.length];
+}
+
+// Scrollback messages as a conversation, with each member's messages
+// attributed to them. Consecutive messages from people are merged, as
+// providers expect user and assistant turns to alternate.
+function roomConversation(scrollback: RoomMessage[]): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  for (const message of scrollback) {
+    if (message.kind === "notice") continue;
+
+    const role = message.kind === "ai" ? "assistant" : "user";
+    const content =
+      role === "user"
+        ? `${message.author}: ${message.content}`
+        : message.content;
+    const last = messages[messages.length - 1];
+    if (last?.role === role) {
+      last.content += `\n${content}`;
+    } else {
+      messages.push({ role, content });
+    }
+  }
+  // The conversation has to start with someone asking
+  while (messages[0]?.role === "assistant") {
+    messages.shift();
+  }
+  return messages;
+}
+
+// The prompt for the room's model turn: as much of the scrollback as fits
+// the model's context window, leaving out the oldest messages
+function roomPrompt(room: Room, model: ModelInfo): ChatMessage[] {
+  const budget = promptBudget(model);
+  const prompt = (start: number): ChatMessage[] => [
+    { role: "system", content: ROOM_SYSTEM_PROMPT },
+    ...roomConversation(room.scrollback.slice(start)),
+  ];
+  let start = 0;
+  while (
+    start < room.scrollback.length - 1 &&
+    countTokens(model.id, prompt(start)) > budget
+  ) {
+    start++;
+  }
+  return prompt(start);
+}
+
+// Send the room's conversation to the model and stream its answer to
+// every member, charged to the member who asked
+async function runAiTurn(room: Room, session: ClientSession) {
+  if (room.aiTurn) {
+    session.writeCommandOutput(
+      "The model is still answering, try again after."
+    );
+    return;
+  }
+  room.aiTurn = true;
+
+  try {
+    await refreshBalance(session);
+    const modelInfo = findModel(session.model);
+    if (!modelInfo || !hasFixedPrice(modelInfo)) {
+      session.writeCommandOutput(
+        `Pricing for ${session.model} is unknown. Use /model to pick a listed model.`
+      );
+      return;
+    }
+
+    const messages = roomPrompt(room, modelInfo);
+    const estimate = estimateRequestCost(modelInfo, messages, session.credits);
+    if (session.credits <= 0 || !estimate) {
+      session.writeCommandOutput(
+        `Your balance of $${session.credits.toFixed(
+          4
+        )} is not enough for the room's conversation on ${session.model}.`
+      );
+      return;
+    }
+    if (estimate.worstCaseCost >= CONFIRM_COST_THRESHOLD) {
+      const confirmed = await promptConfirm(
+        session,
+        `Answering may cost you up to $${estimate.worstCaseCost.toFixed(
+          4
+        )}. Continue?`
+      );
+      if (!confirmed) {
+        session.writeCommandOutput("Request cancelled.");
+        return;
+      }
+    }
+    // Nobody is left to pay if the asker went away while confirming
+    if (session.room !== room.name) {
+      return;
+    }
+
+    // Settled against the asker as they were when asking, even if they
+    // leave, disconnect, log out or pick another model before it's done
+    const payer: Payer = {
+      id: session.id,
+      model: modelInfo.id,
+      userId: session.userId,
+      username: session.username,
+      credits: session.credits,
+      clientIP: session.clientIP,
+      clientPublicKey: session.clientPublicKey,
+      spent: 0,
+    };
+    const hold = await holdCredits(payer, estimate.worstCaseCost);
+    if (!hold) {
+      session.writeCommandOutput(
+        "Your balance changed and no longer covers this request. Check /balance."
+      );
+      return;
+    }
+
+    try {
+      const { response, usage } = await streamAnswer(
+        room,
+        payer.model,
+        session,
+        messages,
+        estimate.maxTokens
+      );
+      // Everyone saw it as it streamed in
+      addToScrollback(room, {
+        kind: "ai",
+        author: payer.username!,
+        content: response,
+        time: new Date(),
+      });
+
+      if (usage) {
+        const cost = calculateCost(modelInfo, usage);
+        await settleHold(payer, hold, cost, usage);
+        recordPromptUsage(payer.model, messages, usage);
+      } else {
+        await releaseHold(payer, hold);
+        console.error(`[${session.id}] Usage data not received from the API`);
+      }
+    } catch (error) {
+      console.error(`[${session.id}] Error querying model:`, error);
+      await releaseHold(payer, hold).catch((releaseError) =>
+        console.error(`[${session.id}] Error releasing credits:`, releaseError)
+      );
+      session.writeCommandOutput(
+        `\x1b[31mError from ${payer.model}, use /model to try another model.\x1b[0m`
+      );
+    }
+    if (session.userId === payer.userId) {
+      session.credits = payer.credits;
+    }
+    session.spent += payer.spent;
+  } catch (error) {
+    console.error("Failed to run room AI turn:", error);
+    session.writeCommandOutput("An error occurred. Please try again.");
+  } finally {
+    room.aiTurn = false;
+  }
+}
+
+// Stream the model's answer to everyone in the room as it arrives
+async function streamAnswer(
+  room: Room,
+  model: string,
+  session: ClientSession,
+  messages: ChatMessage[],
+  maxTokens: number
+): Promise<{ response: string; usage: Usage | null }> {
+  console.log(`[${session.id}] Room ${room.name} asking ${model}`, {
+    maxTokens,
+  });
+  const stream = getProviderForModel(model).streamChat({
+    model,
+    messages,
+    temperature: session.temperature,
+    maxTokens,
+  });
+
+  const time = new Date().toISOString().slice(11, 16);
+  const header = `${DIM}${time}${RESET} ${AI_COLOR}ai${RESET} ${DIM}(${model}, asked by ${session.username})${RESET}\n`;
+  const outputs = new Map(
+    [...room.members].map((member) => {
+      member.clearInput();
+      member.writeToStream(header, false);
+      return [member, createOutputRenderer(member)];
+    })
+  );
+
+  let response = "";
+  let usage: Usage | null = null;
+  try {
+    for await (const chunk of stream) {
+      if (chunk.type === "text") {
+        response += chunk.content;
+        for (const [member, output] of outputs) {
+          // Members who left in the meantime stop getting it
+          if (member.room === room.name) {
+            output.push(chunk.content);
+          }
+        }
+      } else if (chunk.type === "usage") {
+        usage = chunk.usage;
+      }
+    }
+  } finally {
+    for (const [member, output] of outputs) {
+      if (member.room === room.name) {
+        output.end();
+        member.writeToStream("\n");
+      }
+    }
+  }
+
+  return { response: response.trim(), usage };
+}
@@ -1,17 +1,54 @@
 import SSH2 from "ssh2";
 import { ClientSession } from "./clientSession";
-import { loadHostKey, generateWelcomeMessage } from "./utils";
-import { AutoLoginInfo } from "./types";
+import {
+  DEFAULT_TERMINAL,
+  generateWelcomeMessage,
+  loadHostKey,
+  terminalInfo,
+} from "./utils";
+import { AutoLoginInfo, TerminalInfo, TerminalStream } from "./types";
 import http from "http";
-import { handleGameEndChoice } from "./adventureMode";
+import { Duplex } from "stream";
+import {
+  findAccountByKey,
+  fingerprintKey,
+  formatPublicKey,
+  verifyKeySignature,
+} from "./sshKeys";
+import { getGuestBalance, guestQuotaKeys } from "./guestQuotas";
+import { EXIT_LIMITED, handleExec } from "./execMode";
+import { checkConnection, claimSession } from "./rateLimits";
+import { sessions } from "./sessions";
+import { describeBan, findActiveBan } from "./admin";
+import { handleApiRequest, requestURL } from "./httpApi";
+import { acceptWebSocket, rejectUpgrade } from "./webSocket";
+import {
+  TERMINAL_ASSETS,
+  TERMINAL_PAGE,
+  TERMINAL_PATH,
+  TERMINAL_SOCKET_PATH,
+  WEB_TERMINAL_TERM,
+  WebTerminalStream,
+} from "./webTerminal";
 
 const HOST_KEY_PATH = "./host.key";
 const PORT = Number(process.env.PORT ?? 2222);
 const HTTP_PORT = Number(process.env.HTTP_PORT ?? 3000);
+const TRUST_PROXY = process.env.TRUST_PROXY === "1";
+
+// Offered to clients until one succeeds. Keys come first, for logging
+// in to accounts, and the others let guests in.
+const AUTH_METHODS: SSH2.AuthenticationType[] = [
+  "publickey",
+  "keyboard-interactive",
+  "password",
+];
 
 let sessionCounter = 0;
-const sessions = new Map<string, ClientSession>();
-export const guestCredits = new Map<string, number>();
+
+export function nextSessionId(): string {
+  return `session_${++sessionCounter}`;
+}
 
 export function createServer() {
   console.log("Initializing server on port", PORT);
@@ -48,11 +85,24 @@ export function createServer() {
 
 async function handleClientConnection(client: SSH2.Connection) {
   console.log("Client connected");
-  const sessionId = `session_${++sessionCounter}`;
+  const sessionId = nextSessionId();
   const clientIP = client.remoteAddress;
 
   console.log("Client connection from:", clientIP);
 
+  // Counted now, but reported once the client opens a channel we can
+  // write the reason to
+  const limited = checkConnection(clientIP);
+  if (limited) {
+    console.log("Connection limited:", { ip: clientIP, reason: limited });
+  }
+
+  // Public key proven by the client, if any: the one registered to an
+  // account, or else the first key offered, which /key add can register
+  let clientKey: SSH2.PublicKey | null = null;
+  // The account that key is registered to, looked up once here
+  let keyAccount: AutoLoginInfo | null = null;
+
   client.on("authentication", async (ctx) => {
     console.log("Authentication attempt:", {
       method: ctx.method,
@@ -61,20 +111,101 @@ async function handleClientConnection(client: SSH2.Connection) {
       ip: clientIP,
     });
 
-    // Accept all connections as anonymous initially
+    // Ask clients to offer their keys first, otherwise they stop at "none"
+    if (ctx.method === "none") {
+      return ctx.reject(AUTH_METHODS);
+    }
+
+    if (ctx.method === "publickey") {
+      // Without a signature the client is only asking if the key is acceptable
+      if (ctx.signature && ctx.blob) {
+        if (
+          !verifyKeySignature(
+            ctx.key.data,
+            ctx.blob,
+            ctx.signature,
+            ctx.hashAlgo
+          )
+        ) {
+          console.log("Public key signature verification failed", {
+            ip: clientIP,
+          });
+          return ctx.reject();
+        }
+        const account = await findAccountByKey(fingerprintKey(ctx.key.data));
+        if (account) {
+          clientKey = ctx.key;
+          keyAccount = account;
+          return ctx.accept();
+        }
+        // Not registered, so the client goes on to its next key and
+        // ends up a guest if none is
+        clientKey ??= ctx.key;
+        return ctx.reject(AUTH_METHODS);
+      }
+      return ctx.accept();
+    }
+
+    // Accept everything else as anonymous
     return ctx.accept();
   });
 
   client.on("ready", () => {
     console.log(`Client authenticated! (Session: ${sessionId})`, {
       ip: clientIP,
+      key: clientKey ? fingerprintKey(clientKey.data) : null,
     });
     client.on("session", (accept) => {
       const session = accept();
-      session.on("pty", (accept) => accept());
+      let terminal = DEFAULT_TERMINAL;
+      let hasTerminal = false;
+      session.on("pty", (accept, reject, info) => {
+        terminal = terminalInfo(info.cols, info.rows, info.term);
+        hasTerminal = true;
+        accept();
+      });
+      session.on("window-change", (accept, reject, info) => {
+        sessions.get(sessionId)?.resize(info.cols, info.rows);
+        accept?.();
+      });
       session.on("shell", (accept) => {
         const stream = accept();
-        handleStream(stream, sessionId, null, clientIP);
+        if (limited) {
+          refuseChannel(stream, limited, true);
+          return;
+        }
+        handleStream(stream, {
+          sessionId,
+          clientIP,
+          clientKey,
+          keyAccount,
+          terminal,
+          refuse: (reason) => refuseChannel(stream, reason, true),
+        });
+      });
+      // `ssh question.sh "prompt"` asks a single question and exits
+      session.on("exec", async (accept, reject, info) => {
+        const channel = accept();
+        if (limited) {
+          refuseChannel(channel, limited, hasTerminal);
+          return;
+        }
+        console.log(`Exec request for session ${sessionId}`);
+        const account = await resolveAccount(clientKey, keyAccount, clientIP);
+        const ban = await findBan(clientIP, account);
+        if (ban) {
+          refuseChannel(channel, ban, hasTerminal);
+          return;
+        }
+        await handleExec(channel, info.command, {
+          sessionId,
+          account,
+          clientIP,
+          clientPublicKey: clientKey
+            ? formatPublicKey(clientKey.algo, clientKey.data)
+            : null,
+          hasTerminal,
+        });
       });
     });
   });
@@ -90,169 +221,190 @@ async function handleClientConnection(client: SSH2.Connection) {
   });
 }
 
-async function handleStream(
-  stream: SSH2.ServerChannel,
-  sessionId: string,
-  _unused: null,
+// The account the client's key is registered to, or a guest with their
+// guest quota
+async function resolveAccount(
+  clientKey: SSH2.PublicKey | null,
+  keyAccount: AutoLoginInfo | null,
   clientIP: string
-) {
-  console.log(`Stream opened for session ${sessionId}`);
-  let autoLoginInfo: AutoLoginInfo | null = null;
-
-  // Set up anonymous user with guest credits
-  if (!guestCredits.has(clientIP)) {
-    guestCredits.set(clientIP, 0.1);
+): Promise<AutoLoginInfo> {
+  if (keyAccount) {
+    return keyAccount;
   }
-  const credits = guestCredits.get(clientIP) || 0.1;
-  autoLoginInfo = {
+
+  const credits = await getGuestBalance(
+    guestQuotaKeys(clientIP, clientKey ? fingerprintKey(clientKey.data) : null)
+  ).catch((error) => {
+    console.error("Error loading guest quota:", error);
+    return 0;
+  });
+  return {
     username: "guest",
     userId: clientIP,
     credits,
+    selected_model: "",
   };
+}
 
-  const session = new ClientSession(sessionId, stream, autoLoginInfo, clientIP);
-  sessions.set(sessionId, session);
-
-  const welcomeMessage = generateWelcomeMessage(autoLoginInfo);
-  session.writeCommandOutput(welcomeMessage);
-
-  stream.on("data", async (data) => {
-    // Check if there's a custom input handler (for auth etc)
-    if (session.inputHandler) {
-      session.inputHandler(data);
-      return;
-    }
+// Why the client is banned, or null if it isn't
+async function findBan(
+  clientIP: string,
+  account: AutoLoginInfo
+): Promise<string | null> {
+  try {
+    const ban = await findActiveBan(
+      clientIP,
+      account.username !== "guest" ? account.userId : null
+    );
+    return ban ? describeBan(ban) : null;
+  } catch (error) {
+    console.error("Error checking bans:", error);
+    return null;
+  }
+}
 
-    const input = data.toString();
+function refuseChannel(
+  channel: SSH2.ServerChannel,
+  reason: string,
+  hasTerminal: boolean
+) {
+  channel.stderr.write(hasTerminal ? `${reason}\r\n` : `${reason}\n`);
+  channel.exit(EXIT_LIMITED);
+  channel.end();
+}
 
-    // Handle special key sequences
-    if (input.startsWith("\x1b")) {
-      // ESC sequence
-      if (input === "\x1b[A") {
-        // Up arrow
-        return;
-      }
-      if (input === "\x1b[B") {
-        // Down arrow
-        return;
-      }
-      if (input === "\x1b[C") {
-        // Right arrow
-        // Only move right if we're not at the end of the buffer
-        if (session.cursorPos < session.buffer.length) {
-          session.cursorPos++;
-          stream.write("\x1b[C");
-        }
-        return;
-      }
-      if (input === "\x1b[D") {
-        // Left arrow
-        // Only move left if we're not at the start
-        if (session.cursorPos > 0) {
-          session.cursorPos--;
-          stream.write("\x1b[D");
-        }
-        return;
-      }
-      return; // Ignore other escape sequences
-    }
+// Where a terminal session comes from, over either transport
+export interface StreamOrigin {
+  sessionId: string;
+  clientIP: string;
+  clientKey: SSH2.PublicKey | null;
+  // The account clientKey is registered to, found during authentication
+  keyAccount: AutoLoginInfo | null;
+  terminal: TerminalInfo;
+  // Tell the client why it can't have a session, and close the stream
+  refuse: (reason: string) => void;
+}
 
-    // Handle backspace
-    if (input === "\x7f") {
-      if (session.cursorPos > 0) {
-        // Remove character at cursor position
-        session.buffer =
-          session.buffer.slice(0, session.cursorPos - 1) +
-          session.buffer.slice(session.cursorPos);
-        session.cursorPos--;
-
-        // Move cursor back
-        stream.write("\b");
-
-        // Rewrite the rest of the line
-        stream.write(session.buffer.slice(session.cursorPos) + " ");
-
-        // Move cursor back to position
-        stream.write(
-          "\x1b[" + (session.buffer.length - session.cursorPos + 1) + "D"
-        );
-      }
+// Run an interactive session over an ssh channel or a browser terminal
+export async function handleStream(
+  stream: TerminalStream,
+  {
+    sessionId,
+    clientIP,
+    clientKey,
+    keyAccount,
+    terminal,
+    refuse,
+  }: StreamOrigin
+) {
+  console.log(`Stream opened for session ${sessionId}`);
+  // Log in directly if the client's key is registered to an account
+  const autoLoginInfo = await resolveAccount(clientKey, keyAccount, clientIP);
+  const ban = await findBan(clientIP, autoLoginInfo);
+  if (ban) {
+    refuse(ban);
+    return;
+  }
+  if (autoLoginInfo.username !== "guest") {
+    const limited = claimSession(autoLoginInfo.userId, sessionId);
+    if (limited) {
+      refuse(limited);
       return;
     }
+  }
 
-    // Handle enter key
-    if (input === "\r") {
-      stream.write("\n");
-      const trimmedBuffer = session.buffer.trim();
-
-      // Add this block to handle game end choices
-      if (session.gameEndChoice) {
-        try {
-          await handleGameEndChoice(session, trimmedBuffer);
-          session.buffer = "";
-          session.cursorPos = 0;
-          return;
-        } catch (error) {
-          console.error("Error in game end choice:", error);
-          session.writeCommandOutput("An error occurred. Please try again.");
-          return;
-        }
-      }
+  const session = new ClientSession(
+    sessionId,
+    stream,
+    autoLoginInfo,
+    clientIP,
+    terminal
+  );
+  session.clientPublicKey = clientKey
+    ? formatPublicKey(clientKey.algo, clientKey.data)
+    : null;
+  sessions.set(sessionId, session);
 
-      if (trimmedBuffer.toLowerCase() === "exit") {
-        stream.write("Goodbye! 👋\r\n");
-        sessions.delete(sessionId);
-        stream.end();
-        return;
-      }
-      if (trimmedBuffer) {
-        await session.handleMessage(trimmedBuffer);
-      } else {
-        session.writeToStream("", true);
-      }
-      session.buffer = "";
-      session.cursorPos = 0;
-      return;
-    }
+  const welcomeMessage = generateWelcomeMessage(autoLoginInfo, terminal.cols);
+  session.writeCommandOutput(welcomeMessage);
 
-    // Regular character input
-    if (input.length === 1 && input.charCodeAt(0) >= 32) {
-      // Insert character at cursor position
-      session.buffer =
-        session.buffer.slice(0, session.cursorPos) +
-        input +
-        session.buffer.slice(session.cursorPos);
-      session.cursorPos++;
-
-      // Write the new character and the rest of the line
-      stream.write(session.buffer.slice(session.cursorPos - 1));
-
-      // Move cursor back to position
-      if (session.cursorPos < session.buffer.length) {
-        stream.write(
-          "\x1b[" + (session.buffer.length - session.cursorPos) + "D"
-        );
-      }
-    }
+  // Keystrokes go to the session's line editor, or whichever prompt
+  // currently has the input
+  stream.on("data", (data: Buffer) => {
+    session.inputHandler?.(data);
   });
 
   stream.on("error", (err) => {
     console.error(`Stream error for session ${sessionId}:`, err);
+    session.handleDisconnect();
     sessions.delete(sessionId);
   });
 
   stream.on("close", () => {
     console.log(`Stream closed for session ${sessionId}`);
+    session.handleDisconnect();
     sessions.delete(sessionId);
   });
 }
 
 export function createHttpServer() {
   const httpServer = http.createServer((req, res) => {
-    const activeConnections = sessions.size;
+    answerHttpRequest(req, res).catch((error) => {
+      console.error("Failed to answer HTTP request:", error);
+      if (!res.headersSent) {
+        res.writeHead(500, { "Content-Type": "text/plain" });
+      }
+      res.end();
+    });
+  });
+
+  httpServer.on("upgrade", handleTerminalUpgrade);
+
+  httpServer.listen(HTTP_PORT, () => {
+    console.log(`HTTP server listening on port ${HTTP_PORT}`);
+  });
 
+  return httpServer;
+}
+
+async function answerHttpRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+) {
+  const url = requestURL(req);
+  if (!url) {
+    res.writeHead(400, { "Content-Type": "text/plain" });
+    res.end("Bad request\n");
+    return;
+  }
+  if (await handleApiRequest(req, res)) {
+    return;
+  }
+  const { pathname } = url;
+  if (pathname === TERMINAL_PATH) {
     res.writeHead(200, { "Content-Type": "text/html" });
-    res.end(`
+    res.end(TERMINAL_PAGE);
+    return;
+  }
+  const asset = TERMINAL_ASSETS.get(pathname);
+  if (asset) {
+    res.writeHead(200, {
+      "Content-Type": asset.type,
+      "Cache-Control": "public, max-age=86400",
+    });
+    res.end(asset.content);
+    return;
+  }
+  if (pathname !== "/") {
+    res.writeHead(404, { "Content-Type": "text/plain" });
+    res.end("Not found\n");
+    return;
+  }
+
+  const activeConnections = sessions.size;
+
+  res.writeHead(200, { "Content-Type": "text/html" });
+  res.end(`
       <!DOCTYPE html>
       <html>
       <head>
@@ -295,15 +447,97 @@ Query LLMs from your terminal.
 
 Connect:
 
-> ssh question.sh</pre>
+> ssh question.sh
+
+Or open <a href="${TERMINAL_PATH}" style="color: #0f0">the terminal</a> in your browser.</pre>
 </div></body></html>`);
-  });
+}
 
-  httpServer.listen(HTTP_PORT, () => {
-    console.log(`HTTP server listening on port ${HTTP_PORT}`);
+// The address a browser connects from. Behind a reverse proxy every
+// request comes from the proxy, so with TRUST_PROXY=1 the address the
+// proxy added to X-Forwarded-For is used instead.
+function requestIP(req: http.IncomingMessage): string {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (TRUST_PROXY && typeof forwarded === "string") {
+    return forwarded.split(",").pop()!.trim();
+  }
+  return req.socket.remoteAddress ?? "";
+}
+
+function isSameOrigin(req: http.IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) {
+    return true;
+  }
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+// A browser terminal connecting: the WebSocket becomes the session's
+// stream, the same as an ssh channel
+function handleTerminalUpgrade(
+  req: http.IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+) {
+  const url = requestURL(req);
+  if (!url) {
+    rejectUpgrade(socket, 400, "Bad Request");
+    return;
+  }
+  if (url.pathname !== TERMINAL_SOCKET_PATH) {
+    rejectUpgrade(socket, 404, "Not Found");
+    return;
+  }
+  // Pages on other sites can't open sessions for their visitors
+  if (!isSameOrigin(req)) {
+    rejectUpgrade(socket, 403, "Forbidden");
+    return;
+  }
+
+  const sessionId = nextSessionId();
+  const clientIP = requestIP(req);
+  console.log("Web terminal connection from:", clientIP);
+  const limited = checkConnection(clientIP);
+
+  const webSocket = acceptWebSocket(req, socket, head);
+  if (!webSocket) {
+    return;
+  }
+  const stream = new WebTerminalStream(webSocket);
+  const refuse = (reason: string) => {
+    stream.write(`${reason}\r\n`);
+    stream.end();
+  };
+  if (limited) {
+    console.log("Connection limited:", { ip: clientIP, reason: limited });
+    refuse(limited);
+    return;
+  }
+
+  stream.on("resize", (cols: number, rows: number) => {
+    sessions.get(sessionId)?.resize(cols, rows);
+  });
+  webSocket.on("close", () => {
+    console.log(`Web terminal disconnected (Session: ${sessionId})`);
+    sessions.delete(sessionId);
   });
 
-  return httpServer;
+  handleStream(stream, {
+    sessionId,
+    clientIP,
+    clientKey: null,
+    keyAccount: null,
+    terminal: terminalInfo(
+      Number(url.searchParams.get("cols")),
+      Number(url.searchParams.get("rows")),
+      WEB_TERMINAL_TERM
+    ),
+    refuse,
+  });
 }
 
 export { sessions };
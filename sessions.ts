@@ -0,0 +1,4 @@
+import { ClientSession } from "./types";
+
+// Interactive sessions currently open, by session id
+export const sessions = new Map<string, ClientSession>();
@@ -0,0 +1,270 @@
+import { createHash } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import SSH2 from "ssh2";
+import { sql } from "./database";
+import { AutoLoginInfo, ClientSession } from "./types";
+
+const MAX_KEYS_PER_ACCOUNT = 10;
+
+export interface SSHKey {
+  id: string;
+  fingerprint: string;
+  algorithm: string;
+  comment: string | null;
+  created_at: Date;
+}
+
+// OpenSSH style fingerprint: "SHA256:" followed by unpadded base64
+export function fingerprintKey(keyData: Buffer): string {
+  const digest = createHash("sha256").update(keyData).digest("base64");
+  return `SHA256:${digest.replace(/=+$/, "")}`;
+}
+
+// Format a raw key blob the way it appears in authorized_keys
+export function formatPublicKey(algo: string, keyData: Buffer): string {
+  return `${algo} ${keyData.toString("base64")}`;
+}
+
+// Parse an "ssh-ed25519 AAAA... comment" line into its parts
+export function parsePublicKeyLine(
+  line: string
+): { algo: string; data: Buffer; comment: string | null } | null {
+  const parsed = SSH2.utils.parseKey(line.trim());
+  if (parsed instanceof Error) {
+    return null;
+  }
+  const key = Array.isArray(parsed) ? parsed[0] : parsed;
+  if (!key || key.isPrivateKey()) {
+    return null;
+  }
+  return {
+    algo: key.type,
+    data: key.getPublicSSH(),
+    comment: key.comment || null,
+  };
+}
+
+export function verifyKeySignature(
+  keyData: Buffer,
+  blob: Buffer,
+  signature: Buffer,
+  hashAlgo?: string
+): boolean {
+  const parsed = SSH2.utils.parseKey(keyData);
+  if (parsed instanceof Error) {
+    return false;
+  }
+  const key = Array.isArray(parsed) ? parsed[0] : parsed;
+  return key.verify(blob, signature, hashAlgo) === true;
+}
+
+export async function findAccountByKey(
+  fingerprint: string
+): Promise<AutoLoginInfo | null> {
+  try {
+    const [account] = await sql`
+      SELECT a.id, a.username, a.credits, a.selected_model
+      FROM ssh_keys k
+      JOIN accounts a ON a.id = k.account_id
+      WHERE k.fingerprint = ${fingerprint}
+    `;
+    if (!account) {
+      return null;
+    }
+
+    await sql`
+      UPDATE ssh_keys SET last_used_at = NOW()
+      WHERE fingerprint = ${fingerprint}
+    `;
+
+    return {
+      username: account.username,
+      userId: account.id,
+      credits: Number(account.credits),
+      selected_model: account.selected_model,
+    };
+  } catch (error) {
+    console.error("Error looking up SSH key:", error);
+    return null;
+  }
+}
+
+export const KEY_USAGE =
+  "  /key add                      - Register the key you connected with\n" +
+  "  /key add <public key>         - Register a public key (ssh-ed25519 AAAA...)\n" +
+  "  /key list                     - List your registered keys\n" +
+  "  /key remove <fingerprint|#>   - Remove a registered key";
+
+export async function handleKeyCommand(session: ClientSession, args: string[]) {
+  if (!session.username || session.username === "guest") {
+    session.writeCommandOutput(
+      "You need to be logged in to manage SSH keys. Please use /register or /login first."
+    );
+    return;
+  }
+
+  const [subcommand, ...subargs] = args;
+
+  switch (subcommand?.toLowerCase()) {
+    case "add":
+      await addKey(session, subargs.join(" "));
+      return;
+
+    case "list":
+      await listKeys(session);
+      return;
+
+    case "remove":
+      if (subargs.length !== 1) {
+        session.writeCommandOutput("Usage: /key remove <fingerprint|number>");
+        return;
+      }
+      await removeKey(session, subargs[0]);
+      return;
+
+    default:
+      session.writeCommandOutput("Usage:\n" + KEY_USAGE);
+  }
+}
+
+async function addKey(session: ClientSession, keyLine: string) {
+  let key: { algo: string; data: Buffer; comment: string | null } | null;
+
+  if (keyLine) {
+    key = parsePublicKeyLine(keyLine);
+    if (!key) {
+      session.writeCommandOutput(
+        "Invalid public key. Paste a line from your ~/.ssh/*.pub file."
+      );
+      return;
+    }
+  } else {
+    if (!session.clientPublicKey) {
+      session.writeCommandOutput(
+        "You did not connect with an SSH key. Use /key add <public key> instead."
+      );
+      return;
+    }
+    key = parsePublicKeyLine(session.clientPublicKey);
+    if (!key) {
+      session.writeCommandOutput("Unable to read the key you connected with.");
+      return;
+    }
+  }
+
+  const fingerprint = fingerprintKey(key.data);
+
+  try {
+    const [existing] = await sql`
+      SELECT account_id FROM ssh_keys WHERE fingerprint = ${fingerprint}
+    `;
+    if (existing) {
+      session.writeCommandOutput(
+        existing.account_id === session.userId
+          ? "This key is already registered to your account."
+          : "This key is already registered to another account."
+      );
+      return;
+    }
+
+    const [{ count }] = await sql`
+      SELECT COUNT(*)::int AS count FROM ssh_keys
+      WHERE account_id = ${session.userId}
+    `;
+    if (count >= MAX_KEYS_PER_ACCOUNT) {
+      session.writeCommandOutput(
+        `You can register at most ${MAX_KEYS_PER_ACCOUNT} keys. Remove one with /key remove first.`
+      );
+      return;
+    }
+
+    await sql`
+      INSERT INTO ssh_keys (id, account_id, fingerprint, algorithm, public_key, comment)
+      VALUES (${uuidv4()}, ${session.userId}, ${fingerprint}, ${key.algo},
+        ${formatPublicKey(key.algo, key.data)}, ${key.comment})
+    `;
+    session.writeCommandOutput(
+      `Key ${fingerprint} added. Connecting with it will log you in automatically.`
+    );
+  } catch (error) {
+    console.error("Failed to add SSH key:", error);
+    session.writeCommandOutput(
+      `Failed to add key. ${(error as Error).message}`
+    );
+  }
+}
+
+async function getKeys(accountId: string): Promise<SSHKey[]> {
+  return sql<SSHKey[]>`
+    SELECT id, fingerprint, algorithm, comment, created_at
+    FROM ssh_keys
+    WHERE account_id = ${accountId}
+    ORDER BY created_at
+  `;
+}
+
+async function listKeys(session: ClientSession) {
+  try {
+    const keys = await getKeys(session.userId!);
+    if (keys.length === 0) {
+      session.writeCommandOutput(
+        "You don't have any SSH keys yet. Use /key add to register one."
+      );
+      return;
+    }
+
+    const currentKey = session.clientPublicKey
+      ? parsePublicKeyLine(session.clientPublicKey)
+      : null;
+    const currentFingerprint = currentKey
+      ? fingerprintKey(currentKey.data)
+      : null;
+
+    let keyList = "Your SSH keys:\n";
+    keys.forEach((key, i) => {
+      const current =
+        key.fingerprint === currentFingerprint
+          ? " \x1b[32m(current)\x1b[0m"
+          : "";
+      keyList += `${i + 1}. ${key.algorithm} ${key.fingerprint}${
+        key.comment ? ` ${key.comment}` : ""
+      }${current}\n`;
+    });
+    session.writeCommandOutput(keyList);
+  } catch (error) {
+    console.error("Failed to list SSH keys:", error);
+    session.writeCommandOutput(
+      `Failed to list keys. ${(error as Error).message}`
+    );
+  }
+}
+
+async function removeKey(session: ClientSession, target: string) {
+  try {
+    const keys = await getKeys(session.userId!);
+    const index = Number(target);
+    const key =
+      Number.isInteger(index) && index >= 1
+        ? keys[index - 1]
+        : keys.find(
+            (k) =>
+              k.fingerprint === target || k.fingerprint === `SHA256:${target}`
+          );
+
+    if (!key) {
+      session.writeCommandOutput(`Key "${target}" not found.`);
+      return;
+    }
+
+    await sql`
+      DELETE FROM ssh_keys
+      WHERE id = ${key.id} AND account_id = ${session.userId}
+    `;
+    session.writeCommandOutput(`Key ${key.fingerprint} removed.`);
+  } catch (error) {
+    console.error("Failed to remove SSH key:", error);
+    session.writeCommandOutput(
+      `Failed to remove key. ${(error as Error).message}`
+    );
+  }
+}
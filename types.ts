@@ -1,16 +1,49 @@
-import { Stream } from "ssh2";
+// The connection a session talks over: an ssh channel, or a browser
+// terminal's WebSocket. Keystrokes arrive as "data" and output is
+// written back as terminal text.
+export interface TerminalStream {
+  write(data: string): unknown;
+  end(): unknown;
+  on(event: "data", listener: (data: Buffer) => void): unknown;
+  on(event: "close", listener: () => void): unknown;
+  on(event: "error", listener: (error: Error) => void): unknown;
+  removeAllListeners(): unknown;
+}
 
 export interface Message {
   role: "user" | "assistant";
   content: string;
+  // What produced an answer, to tell alternatives apart
+  model?: string;
+  temperature?: number;
+}
+
+// Every version of a conversation. Regenerated answers and edited
+// messages are siblings, and active picks the child on the branch in use.
+export interface ConversationTree {
+  children: ConversationNode[];
+  active: number;
 }
 
+export interface ConversationNode extends Message, ConversationTree {}
+
+// What happens to the oldest turns when a conversation outgrows the
+// model's context window
+export type ContextMode = "drop" | "summarize";
+
 export interface ClientSession {
   id: string;
-  buffer: string;
   lastRequest: number;
   requestCount: number;
   conversation: Message[];
+  conversationId: string | null;
+  // All branches of the conversation, which is the active one
+  conversationTree: ConversationTree;
+  // Turns before this index are no longer sent, they were dropped or
+  // folded into contextSummary
+  contextStart: number;
+  contextSummary: string | null;
+  contextMode: ContextMode;
   startTime: number;
   model: string;
   systemPrompt: string;
@@ -18,26 +51,58 @@ export interface ClientSession {
   userId: string | null;
   username: string | null;
   credits: number;
-  stream: Stream;
+  stream: TerminalStream;
   currentCharacter: Character | null;
   isInAdventure: boolean;
   adventureConversation: Message[];
   clientIP: string;
   inputHandler: ((data: Buffer) => void) | null;
-  cursorPos: number;
-  gameEndChoice?: boolean;
+  clientPublicKey: string | null;
+  renderMarkdown: boolean;
+  terminal: TerminalInfo;
+  // Name of the chat room the session is in
+  room: string | null;
+  // Charged for requests in this session so far (in USD)
+  spent: number;
 
   writeToStream(message: string, addPrompt?: boolean): void;
   writeCommandOutput(message: string, addPrompt?: boolean): void;
+  writeNotification(message: string): void;
+  clearInput(): void;
+  showPrompt(): void;
+  resize(cols: number, rows: number): void;
+  terminateSession(message?: string): void;
   handleCommand(cmd: string): Promise<boolean>;
   handleMessage(message: string): Promise<void>;
-  streamResponse(userMessage: string): Promise<void>;
+  // Returns whether the request went through
+  streamResponse(userMessage: string): Promise<boolean>;
+  handleInteractiveAuth(mode: "login" | "register"): Promise<void>;
+}
+
+export interface TerminalInfo {
+  cols: number;
+  rows: number;
+  term: string;
+  // False for "dumb" terminals, which get output without colors
+  colors: boolean;
+}
+
+// A few-shot exchange sent ahead of the conversation
+export interface CharacterExample {
+  user: string;
+  assistant: string;
 }
 
 export interface Character {
   id: string;
   name: string;
   system_prompt: string;
+  // Applied to the session when the character is used, if set
+  model: string | null;
+  temperature: number | null;
+  // Said by the assistant when a conversation starts with the character
+  greeting: string | null;
+  examples: CharacterExample[];
 }
 
 export interface AutoLoginInfo {
@@ -1,16 +1,35 @@
 import { readFileSync } from "fs";
-import { AutoLoginInfo } from "./types";
+import { AutoLoginInfo, TerminalInfo } from "./types";
+import { DEFAULT_MODEL } from "./providers";
+import { describeNextRefill, GUEST_CREDITS } from "./guestQuotas";
+import { Command, commandSynopsis } from "./commands";
 
 export function loadHostKey(path: string): Buffer {
   return readFileSync(path);
 }
 
-export function generateWelcomeMessage(
-  autoLoginInfo: AutoLoginInfo | null
-): string {
-  const welcomeMessage = `
-    \x1b[35m
+// Assumed when the client doesn't request a pty, or leaves out its size
+export const DEFAULT_TERMINAL: TerminalInfo = {
+  cols: 80,
+  rows: 24,
+  term: "xterm",
+  colors: true,
+};
+
+export function terminalInfo(
+  cols: number,
+  rows: number,
+  term: string
+): TerminalInfo {
+  return {
+    cols: cols || DEFAULT_TERMINAL.cols,
+    rows: rows || DEFAULT_TERMINAL.rows,
+    term: term || DEFAULT_TERMINAL.term,
+    colors: term !== "dumb",
+  };
+}
 
+const BANNER = `
     ::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::
     ::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::
     ::                                                          ::
@@ -24,24 +43,49 @@ export function generateWelcomeMessage(
     ::                                                          ::
     ::                                                          ::
     ::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::
-    ::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::                              
+    ::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::::`;
+const BANNER_WIDTH = 66;
+
+const COMPACT_BANNER = `
+    ┌─────────────┐
+    │ question.sh │
+    └─────────────┘`;
+const COMPACT_BANNER_WIDTH = 19;
+
+export function generateWelcomeMessage(
+  autoLoginInfo: AutoLoginInfo | null,
+  columns: number = DEFAULT_TERMINAL.cols
+): string {
+  const banner =
+    columns >= BANNER_WIDTH
+      ? BANNER
+      : columns >= COMPACT_BANNER_WIDTH
+      ? COMPACT_BANNER
+      : "question.sh";
+  const isLoggedIn = !!autoLoginInfo && autoLoginInfo.username !== "guest";
+  const credits = (autoLoginInfo?.credits ?? GUEST_CREDITS).toFixed(4);
+  const welcomeMessage = `
+    \x1b[35m
 
+${banner}
     \x1b[0m
     🤖 Welcome to \x1b[1mquestion.sh\x1b[0m. Query LLMs from your terminal.
     
-    Conversations are not saved.
+    ${
+      isLoggedIn
+        ? "Conversations are saved to your account. Use /conversations to resume one."
+        : "Conversations are not saved. Log in to keep them."
+    }
 
     ${
-      autoLoginInfo
+      isLoggedIn
         ? `\x1b[32mYou are logged in as ${
-            autoLoginInfo.username
-          }. You have $${autoLoginInfo.credits.toFixed(4)} credits.\x1b[0m`
-        : `\x1b[33mYou have $0.1000 credits as a guest. Use /register or /login to get more credits.\x1b[0m`
+            autoLoginInfo!.username
+          }. You have $${credits} credits.\x1b[0m`
+        : `\x1b[33mYou have $${credits} credits as a guest. Use /register or /login to get more credits.\n    ${describeNextRefill()}\x1b[0m`
     }
 
-    Current model: ${
-      autoLoginInfo?.selected_model || "anthropic/claude-3.5-haiku:beta"
-    }
+    Current model: ${autoLoginInfo?.selected_model || DEFAULT_MODEL}
 
     Type your message and press Enter. Commands:
     - Type "exit" to quit
@@ -51,23 +95,72 @@ export function generateWelcomeMessage(
   return welcomeMessage;
 }
 
-export function generateHelpMessage(): string {
+// The command list for /help, one line per command with the summaries
+// lined up. /help <command> shows the details of one.
+export function generateHelpMessage(commands: Command[]): string {
+  const synopses = commands.map(commandSynopsis);
+  const width = Math.max(...synopses.map((synopsis) => synopsis.length));
+  const lines = commands.map(
+    (command, i) => `  ${synopses[i].padEnd(width)}  - ${command.summary}`
+  );
   return `
 Available Commands:
-  /reset   - Clear conversation history
-  /history - Show conversation history
-  /stats   - Show session statistics
-  /system  - Set system prompt
-  /clear   - Clear screen
-  /retry   - Retry last message with optional temperature:
-             /retry 0.8
-  /register - Register a new account
-  /login    - Login to an existing account
-  /char               - Manage characters (use /char for subcommands)
-  /adventure          - Start a text-based RPG adventure
-  /model              - List available models or select a model:
-                        /model (list models)
-                        /model <model_name> (select a model)
-  /balance            - Check your current credit balance
-  exit     - Exit the session`;
+${lines.join("\n")}
+  ${"exit".padEnd(width)}  - Exit the session
+
+Use /help <command> for its details. Quote arguments that contain spaces,
+  like /system "Answer in French". Tab completes commands and arguments.
+
+Editing: Up/Down recall earlier input, Ctrl+R searches it.
+  Ctrl+A/E line start/end, Alt+B/F move by word,
+  Ctrl+W/U/K delete word/to start/to end, Ctrl+Y paste.
+Multi-line: Alt+Enter adds a line, or wrap the message in """ ... """.`;
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;?]*[ -\/]*[@-~]|\x1b[@-_]/g, "");
+}
+
+// Terminal columns taken by a code point: 0 for combining marks and
+// zero-width characters, 2 for East Asian wide characters and emoji
+export function charWidth(codePoint: number): number {
+  if (
+    codePoint < 32 ||
+    (codePoint >= 0x7f && codePoint < 0xa0) ||
+    (codePoint >= 0x0300 && codePoint <= 0x036f) ||
+    (codePoint >= 0x200b && codePoint <= 0x200f) ||
+    (codePoint >= 0xfe00 && codePoint <= 0xfe0f) ||
+    (codePoint >= 0x1f3fb && codePoint <= 0x1f3ff)
+  ) {
+    return 0;
+  }
+  if (
+    (codePoint >= 0x1100 && codePoint <= 0x115f) ||
+    (codePoint >= 0x2e80 && codePoint <= 0x303e) ||
+    (codePoint >= 0x3041 && codePoint <= 0x33ff) ||
+    (codePoint >= 0x3400 && codePoint <= 0x4dbf) ||
+    (codePoint >= 0x4e00 && codePoint <= 0x9fff) ||
+    (codePoint >= 0xa000 && codePoint <= 0xa4cf) ||
+    (codePoint >= 0xac00 && codePoint <= 0xd7a3) ||
+    (codePoint >= 0xf900 && codePoint <= 0xfaff) ||
+    (codePoint >= 0xfe30 && codePoint <= 0xfe4f) ||
+    (codePoint >= 0xff00 && codePoint <= 0xff60) ||
+    (codePoint >= 0xffe0 && codePoint <= 0xffe6) ||
+    (codePoint >= 0x1f300 && codePoint <= 0x1f64f) ||
+    (codePoint >= 0x1f900 && codePoint <= 0x1f9ff) ||
+    (codePoint >= 0x1fa70 && codePoint <= 0x1faff) ||
+    (codePoint >= 0x20000 && codePoint <= 0x3fffd)
+  ) {
+    return 2;
+  }
+  return 1;
+}
+
+// Terminal columns taken by a string, ignoring ANSI escape sequences
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of stripAnsi(text)) {
+    width += charWidth(char.codePointAt(0)!);
+  }
+  return width;
 }
@@ -0,0 +1,250 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import http from "http";
+import { Duplex } from "stream";
+
+// Just enough of RFC 6455 to serve the browser terminal from the existing
+// HTTP server, without another dependency
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+// Messages larger than this close the connection
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+// Idle connections are pinged so proxies keep them open, and dropped if
+// the ping goes unanswered
+const PING_INTERVAL_MS = 30 * 1000;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const CLOSE_NORMAL = 1000;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_TOO_LARGE = 1009;
+
+class ProtocolError extends Error {
+  code: number;
+
+  constructor(message: string, code: number = CLOSE_PROTOCOL_ERROR) {
+    super(message);
+    this.code = code;
+  }
+}
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+  // Bytes of the buffer the frame took up
+  size: number;
+}
+
+// The first complete frame in `buffer`, or null if it hasn't all arrived
+function readFrame(buffer: Buffer): Frame | null {
+  if (buffer.length < 2) return null;
+
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (!masked) {
+    throw new ProtocolError("Client frames must be masked");
+  }
+  if (length === 126) {
+    if (buffer.length < offset + 2) return null;
+    length = buffer.readUInt16BE(offset);
+    offset += 2;
+  } else if (length === 127) {
+    if (buffer.length < offset + 8) return null;
+    const longLength = buffer.readBigUInt64BE(offset);
+    if (longLength > BigInt(MAX_MESSAGE_BYTES)) {
+      throw new ProtocolError("Message too large", CLOSE_TOO_LARGE);
+    }
+    length = Number(longLength);
+    offset += 8;
+  }
+  if (length > MAX_MESSAGE_BYTES) {
+    throw new ProtocolError("Message too large", CLOSE_TOO_LARGE);
+  }
+
+  if (buffer.length < offset + 4 + length) return null;
+  const mask = buffer.subarray(offset, offset + 4);
+  offset += 4;
+  const payload = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) {
+    payload[i] = buffer[offset + i] ^ mask[i % 4];
+  }
+
+  return { fin, opcode, payload, size: offset + length };
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// A server side WebSocket connection. Emits "message" with each complete
+// message, "close" once the connection is gone and "error".
+export class WebSocket extends EventEmitter {
+  private socket: Duplex;
+  private buffer = Buffer.alloc(0);
+  // Fragments of a message that hasn't finished arriving
+  private fragments: Buffer[] = [];
+  private fragmentsSize = 0;
+  private closing = false;
+  private alive = true;
+  private pingTimer: ReturnType<typeof setInterval>;
+
+  constructor(socket: Duplex, head: Buffer = Buffer.alloc(0)) {
+    super();
+    this.socket = socket;
+    // Data that came in with the handshake, once listeners are attached
+    if (head.length > 0) {
+      queueMicrotask(() => this.handleData(head));
+    }
+    socket.on("data", (data: Buffer) => this.handleData(data));
+    socket.on("error", (error) => this.emit("error", error));
+    socket.on("close", () => {
+      clearInterval(this.pingTimer);
+      this.emit("close");
+    });
+
+    this.pingTimer = setInterval(() => {
+      if (!this.alive) {
+        this.socket.destroy();
+        return;
+      }
+      this.alive = false;
+      this.sendFrame(OPCODE_PING, Buffer.alloc(0));
+    }, PING_INTERVAL_MS);
+  }
+
+  send(data: string) {
+    this.sendFrame(OPCODE_TEXT, Buffer.from(data, "utf-8"));
+  }
+
+  close(code: number = CLOSE_NORMAL, reason: string = "") {
+    if (this.closing) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.sendFrame(OPCODE_CLOSE, payload);
+    this.closing = true;
+    this.socket.end();
+  }
+
+  private sendFrame(opcode: number, payload: Buffer) {
+    if (this.closing || this.socket.destroyed) return;
+    this.socket.write(encodeFrame(opcode, payload));
+  }
+
+  private handleData(data: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    try {
+      let frame: Frame | null;
+      while ((frame = readFrame(this.buffer))) {
+        this.buffer = this.buffer.subarray(frame.size);
+        this.handleFrame(frame);
+      }
+    } catch (error) {
+      const code =
+        error instanceof ProtocolError ? error.code : CLOSE_PROTOCOL_ERROR;
+      this.close(code, (error as Error).message);
+      this.buffer = Buffer.alloc(0);
+    }
+  }
+
+  private handleFrame({ fin, opcode, payload }: Frame) {
+    this.alive = true;
+    switch (opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_BINARY:
+      case OPCODE_CONTINUATION:
+        if ((opcode === OPCODE_CONTINUATION) !== this.fragments.length > 0) {
+          throw new ProtocolError("Unexpected continuation frame");
+        }
+        this.fragmentsSize += payload.length;
+        if (this.fragmentsSize > MAX_MESSAGE_BYTES) {
+          throw new ProtocolError("Message too large", CLOSE_TOO_LARGE);
+        }
+        this.fragments.push(payload);
+        if (fin) {
+          const message = Buffer.concat(this.fragments);
+          this.fragments = [];
+          this.fragmentsSize = 0;
+          this.emit("message", message);
+        }
+        return;
+      case OPCODE_PING:
+        this.sendFrame(OPCODE_PONG, payload);
+        return;
+      case OPCODE_PONG:
+        return;
+      case OPCODE_CLOSE:
+        this.close(
+          payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_NORMAL
+        );
+        return;
+      default:
+        throw new ProtocolError(`Unknown opcode ${opcode}`);
+    }
+  }
+}
+
+// Complete the handshake for an upgrade request. Returns null, having
+// answered with an error, if it isn't a WebSocket handshake.
+export function acceptWebSocket(
+  req: http.IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+): WebSocket | null {
+  const key = req.headers["sec-websocket-key"];
+  if (
+    req.method !== "GET" ||
+    req.headers.upgrade?.toLowerCase() !== "websocket" ||
+    req.headers["sec-websocket-version"] !== "13" ||
+    typeof key !== "string"
+  ) {
+    rejectUpgrade(socket, 400, "Bad Request");
+    return null;
+  }
+
+  const accept = crypto
+    .createHash("sha1")
+    .update(key + HANDSHAKE_GUID)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  return new WebSocket(socket, head);
+}
+
+export function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  socket.end(
+    `HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`
+  );
+}
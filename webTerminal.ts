@@ -0,0 +1,139 @@
+import { EventEmitter } from "events";
+import { readFileSync } from "fs";
+import { createRequire } from "module";
+import { TerminalStream } from "./types";
+import { WebSocket } from "./webSocket";
+
+// The browser terminal: a page running xterm.js that talks to a session
+// over a WebSocket. The page sends JSON messages,
+//   {"type": "input", "data": "<keystrokes>"}
+//   {"type": "resize", "cols": 80, "rows": 24}
+// and gets the terminal output back as text messages.
+
+export const TERMINAL_PATH = "/terminal";
+export const TERMINAL_SOCKET_PATH = "/terminal/ws";
+
+// The terminal xterm.js emulates, so colors are on
+export const WEB_TERMINAL_TERM = "xterm-256color";
+
+const require = createRequire(import.meta.url);
+
+function asset(type: string, module: string) {
+  return { type, content: readFileSync(require.resolve(module), "utf-8") };
+}
+
+// xterm.js comes from the pinned packages in package.json, served next
+// to the page, so it doesn't depend on a CDN the page can't verify and
+// works where the browser can only reach this server
+export const TERMINAL_ASSETS = new Map([
+  [
+    `${TERMINAL_PATH}/xterm.css`,
+    asset("text/css", "@xterm/xterm/css/xterm.css"),
+  ],
+  [
+    `${TERMINAL_PATH}/xterm.js`,
+    asset("text/javascript", "@xterm/xterm/lib/xterm.js"),
+  ],
+  [
+    `${TERMINAL_PATH}/addon-fit.js`,
+    asset("text/javascript", "@xterm/addon-fit/lib/addon-fit.js"),
+  ],
+]);
+
+// A session's stream over a browser's WebSocket. Emits "resize" with the
+// new columns and rows when the browser window changes size.
+export class WebTerminalStream extends EventEmitter implements TerminalStream {
+  private socket: WebSocket;
+
+  constructor(socket: WebSocket) {
+    super();
+    this.socket = socket;
+    socket.on("message", (message: Buffer) => this.handleMessage(message));
+    socket.on("close", () => this.emit("close"));
+    socket.on("error", (error: Error) => {
+      // Nobody listens once the session has been cleaned up
+      if (this.listenerCount("error") > 0) {
+        this.emit("error", error);
+      } else {
+        console.error("Web terminal socket error:", error);
+      }
+    });
+  }
+
+  write(data: string) {
+    this.socket.send(data);
+    return true;
+  }
+
+  end() {
+    this.socket.close();
+  }
+
+  private handleMessage(message: Buffer) {
+    let parsed: {
+      type?: unknown;
+      data?: unknown;
+      cols?: unknown;
+      rows?: unknown;
+    };
+    try {
+      parsed = JSON.parse(message.toString("utf-8"));
+    } catch {
+      return;
+    }
+
+    if (parsed.type === "input" && typeof parsed.data === "string") {
+      this.emit("data", Buffer.from(parsed.data, "utf-8"));
+    } else if (parsed.type === "resize") {
+      this.emit("resize", Number(parsed.cols) || 0, Number(parsed.rows) || 0);
+    }
+  }
+}
+
+export const TERMINAL_PAGE = `<!DOCTYPE html>
+<html>
+<head>
+  <title>question.sh</title>
+  <meta name="description" content="Query LLMs from your browser">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <link rel="stylesheet" href="${TERMINAL_PATH}/xterm.css">
+  <style>
+    html, body { height: 100%; margin: 0; background: #000; }
+    #terminal { height: 100%; padding: 8px; box-sizing: border-box; }
+  </style>
+</head>
+<body>
+  <div id="terminal"></div>
+  <script src="${TERMINAL_PATH}/xterm.js"></script>
+  <script src="${TERMINAL_PATH}/addon-fit.js"></script>
+  <script>
+    const term = new Terminal({
+      cursorBlink: true,
+      fontFamily: "monospace",
+      theme: { background: "#000000" },
+    });
+    const fit = new FitAddon.FitAddon();
+    term.loadAddon(fit);
+    term.open(document.getElementById("terminal"));
+    fit.fit();
+    term.focus();
+
+    const scheme = location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(
+      scheme + "//" + location.host + "${TERMINAL_SOCKET_PATH}" +
+        "?cols=" + term.cols + "&rows=" + term.rows
+    );
+    const send = (message) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    socket.onmessage = (event) => term.write(event.data);
+    socket.onclose = () => term.write("\\r\\n[Connection closed]\\r\\n");
+    term.onData((data) => send({ type: "input", data }));
+    term.onResize(({ cols, rows }) => send({ type: "resize", cols, rows }));
+    window.addEventListener("resize", () => fit.fit());
+  </script>
+</body>
+</html>`;
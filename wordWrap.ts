@@ -0,0 +1,138 @@
+import { charWidth } from "./utils";
+
+const ANSI_SEQUENCE_PATTERN = /^\x1b\[[0-9;?]*[ -\/]*[@-~]/;
+const TAB_WIDTH = 4;
+
+// Word wraps text written in pieces, as it streams in, to the terminal
+// width. A word is held back until the space after it arrives so it can
+// move to the next line whole; words longer than a line are broken.
+// Wrapped lines are indented like the line they continue, or by what was
+// set with setIndent.
+export class WordWrapper {
+  private column = 0;
+  private indent = 0;
+  private word = "";
+  private wordWidth = 0;
+  private spaces = 0;
+  private output: (text: string) => void;
+  private width: () => number;
+
+  constructor(output: (text: string) => void, width: () => number) {
+    this.output = output;
+    this.width = width;
+  }
+
+  // Indent lines wrapped from the current one by this many columns
+  setIndent(columns: number) {
+    this.indent = columns;
+  }
+
+  write(text: string) {
+    let output = "";
+    let i = 0;
+
+    while (i < text.length) {
+      const char = text[i];
+
+      if (char === "\x1b") {
+        // Escape sequences take no space, keep them with the word
+        const sequence = ANSI_SEQUENCE_PATTERN.exec(text.slice(i))?.[0] ?? char;
+        this.word += sequence;
+        i += sequence.length;
+        continue;
+      }
+
+      if (char === "\n" || char === "\r") {
+        // Trailing spaces are dropped
+        output += this.takeWord() + char;
+        this.column = 0;
+        this.spaces = 0;
+        if (char === "\n") {
+          this.indent = 0;
+        }
+        i++;
+        continue;
+      }
+
+      if (char === " " || char === "\t") {
+        output += this.takeWord();
+        this.spaces += char === "\t" ? TAB_WIDTH : 1;
+        i++;
+        continue;
+      }
+
+      const codePoint = text.codePointAt(i)!;
+      const length = codePoint > 0xffff ? 2 : 1;
+      const width = charWidth(codePoint);
+      if (
+        this.wordWidth > 0 &&
+        this.wordWidth + width > this.width() - this.indent
+      ) {
+        // Longer than a line, break it where it reaches the edge
+        output += this.takeWord() + this.newLine();
+      }
+      this.word += text.slice(i, i + length);
+      this.wordWidth += width;
+      i += length;
+    }
+
+    if (output) {
+      this.output(output);
+    }
+  }
+
+  // Write out the word held back, once no more text is coming
+  flush() {
+    const output = this.takeWord();
+    if (output) {
+      this.output(output);
+    }
+  }
+
+  private newLine(): string {
+    this.column = this.indent;
+    this.spaces = 0;
+    return "\n" + " ".repeat(this.indent);
+  }
+
+  private takeWord(): string {
+    if (this.wordWidth === 0) {
+      const sequences = this.word;
+      this.word = "";
+      return sequences;
+    }
+
+    let output = "";
+    if (this.column === 0 && this.indent === 0) {
+      // Wrapped lines line up with the start of this one
+      this.indent = Math.min(this.spaces, Math.floor(this.width() / 2));
+    }
+    if (
+      this.column > this.indent &&
+      this.column + this.spaces + this.wordWidth > this.width()
+    ) {
+      output += this.newLine();
+    } else {
+      output += " ".repeat(this.spaces);
+      this.column += this.spaces;
+    }
+
+    output += this.word;
+    this.column += this.wordWidth;
+    this.word = "";
+    this.wordWidth = 0;
+    this.spaces = 0;
+    return output;
+  }
+}
+
+export function wrapText(text: string, width: number): string {
+  let output = "";
+  const wrapper = new WordWrapper(
+    (wrapped) => (output += wrapped),
+    () => width
+  );
+  wrapper.write(text);
+  wrapper.flush();
+  return output;
+}